@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { MarketExposure } from '../prediction-markets/market-exposure';
+import { TradeExecutor } from '../execution/trade-executor';
+import { TradeJournal } from '../storage/trade-journal';
+import { Notifier } from '../notifications/notifier';
+import { logger } from '../observability/logger';
+
+export const SETTLED_STATUSES = ['settled', 'readyToClose', 'closed'];
+export const VOIDED_STATUSES = ['voided'];
+
+export interface PnlSnapshot {
+  day: string;
+  realizedToday: number;
+  unrealized: number;
+  // Mark of the open positions when the day started; dailyPnl counts only the change since.
+  unrealizedAtDayStart: number;
+  dailyPnl: number;
+  dailyLoss: number;
+  totalRealized: number;
+  timestamp: Date;
+}
+
+interface PnlState {
+  day: string;
+  realizedToday: number;
+  totalRealized: number;
+  // Settled or voided markets, with their final PnL.
+  realizedMarkets: Record<string, number>;
+  // Open markets whose position was offset, with the PnL locked in and booked so far.
+  offsetMarkets: Record<string, number>;
+  unrealizedAtDayStart: number | null;
+}
+
+const FLAT_EPSILON = 1e-6;
+
+export function dayKey(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+// A position whose every outcome pays the same has been fully offset, so its result no longer
+// depends on the market and can be booked as realized.
+export function offsetMarketPnl(position: MarketExposure | null): number | null {
+  const profits = position?.outcomes.map(o => o.profitIfWins) || [];
+  if (profits.length === 0) return null;
+
+  const min = Math.min(...profits);
+  return Math.max(...profits) - min < FLAT_EPSILON ? min : null;
+}
+
+export function settledMarketPnl(position: MarketExposure | null, winningOutcomeIndex: number | null): number {
+  if (!position || winningOutcomeIndex === null) return 0;
+
+  return position.outcomes.find(o => o.outcomeIndex === winningOutcomeIndex)?.profitIfWins ?? 0;
+}
+
+export class PnlTracker {
+  private executor: TradeExecutor;
+  private owner: PublicKey;
+  private journal?: TradeJournal;
+  private notifier?: Notifier;
+  private statePath: string;
+  private timeZone: string;
+  private state: PnlState;
+  private unrealized: number = 0;
+
+  constructor(
+    executor: TradeExecutor,
+    owner: PublicKey,
+    statePath: string,
+    timeZone: string,
+    journal?: TradeJournal,
+    notifier?: Notifier
+  ) {
+    this.executor = executor;
+    this.owner = owner;
+    this.journal = journal;
+    this.notifier = notifier;
+    this.statePath = statePath;
+    this.timeZone = timeZone;
+    this.state = {
+      day: dayKey(new Date(), timeZone),
+      realizedToday: 0,
+      totalRealized: 0,
+      realizedMarkets: {},
+      offsetMarkets: {},
+      unrealizedAtDayStart: null,
+    };
+  }
+
+  async load(): Promise<void> {
+    try {
+      const contents = await fs.readFile(this.statePath, 'utf8');
+      this.state = { ...this.state, ...JSON.parse(contents) };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    await this.rollDayIfNeeded();
+  }
+
+  async refresh(): Promise<PnlSnapshot> {
+    await this.rollDayIfNeeded();
+
+    const positions = await this.executor.getMonacoPositions(this.owner);
+    const markets = new Map(positions.map(pos => [pos.marketPk.toBase58(), pos.marketPk]));
+
+    let unrealized = 0;
+
+    for (const [marketId, marketPk] of markets) {
+      if (marketId in this.state.realizedMarkets) continue;
+
+      const market = await this.executor.getMonacoClient().getMarket(marketPk);
+      if (!market) continue;
+
+      if (VOIDED_STATUSES.includes(market.marketStatus)) {
+        await this.recordRealized(marketId, 0);
+      } else if (SETTLED_STATUSES.includes(market.marketStatus)) {
+        const position = await this.executor.getMarketPosition(this.owner, market.marketPk);
+        await this.recordRealized(marketId, settledMarketPnl(position, market.marketWinningOutcomeIndex));
+      } else {
+        const position = await this.executor.getMarketPosition(this.owner, market.marketPk);
+        const offset = offsetMarketPnl(position);
+        if (offset !== null) {
+          await this.recordOffset(marketId, offset);
+        }
+        // Whatever was booked when the position was offset is already in realizedToday.
+        unrealized += (position?.unrealizedPnl ?? 0) - (this.state.offsetMarkets[marketId] ?? 0);
+      }
+    }
+
+    this.unrealized = unrealized;
+    if (this.state.unrealizedAtDayStart === null) {
+      this.state.unrealizedAtDayStart = unrealized;
+      await this.save();
+    }
+    return this.getSnapshot();
+  }
+
+  async recordRealized(marketId: string, pnl: number): Promise<void> {
+    if (marketId in this.state.realizedMarkets) return;
+
+    const booked = this.state.offsetMarkets[marketId] ?? 0;
+    delete this.state.offsetMarkets[marketId];
+    this.state.realizedMarkets[marketId] = pnl;
+    this.state.realizedToday += pnl - booked;
+    this.state.totalRealized += pnl - booked;
+
+    logger.info('Realized PnL', { market: marketId, pnl });
+    await this.save();
+
+    await this.journal?.recordSettlement({
+      type: 'settlement',
+      timestamp: new Date().toISOString(),
+      marketPk: marketId,
+      pnl,
+      paper: this.executor.mode === 'paper',
+    });
+
+    this.notifier?.notify('market_settled', 'Market settled', `Realized ${pnl.toFixed(4)} on ${marketId}`, {
+      market: marketId,
+      pnl: pnl.toFixed(4),
+      totalRealized: this.state.totalRealized.toFixed(4),
+      paper: this.executor.mode === 'paper' || undefined,
+    });
+  }
+
+  // Books the locked-in result of an offset position; later trades in the market that change
+  // it book the difference.
+  private async recordOffset(marketId: string, pnl: number): Promise<void> {
+    const booked = this.state.offsetMarkets[marketId] ?? 0;
+    if (Math.abs(pnl - booked) < FLAT_EPSILON) return;
+
+    this.state.offsetMarkets[marketId] = pnl;
+    this.state.realizedToday += pnl - booked;
+    this.state.totalRealized += pnl - booked;
+
+    logger.info('Realized PnL from offset position', { market: marketId, pnl, change: pnl - booked });
+    await this.save();
+  }
+
+  getDailyLoss(): number {
+    return Math.max(0, -this.getSnapshot().dailyPnl);
+  }
+
+  getSnapshot(): PnlSnapshot {
+    // A market that settles today moves its mark from unrealized to realized, so comparing
+    // against the day-start mark counts only what it gained or lost today.
+    const unrealizedAtDayStart = this.state.unrealizedAtDayStart ?? this.unrealized;
+    const dailyPnl = this.state.realizedToday + this.unrealized - unrealizedAtDayStart;
+
+    return {
+      day: this.state.day,
+      realizedToday: this.state.realizedToday,
+      unrealized: this.unrealized,
+      unrealizedAtDayStart,
+      dailyPnl,
+      dailyLoss: Math.max(0, -dailyPnl),
+      totalRealized: this.state.totalRealized,
+      timestamp: new Date(),
+    };
+  }
+
+  private async rollDayIfNeeded(): Promise<void> {
+    const today = dayKey(new Date(), this.timeZone);
+    if (today === this.state.day) return;
+
+    this.state.day = today;
+    this.state.realizedToday = 0;
+    // Taken from the first refresh of the new day.
+    this.state.unrealizedAtDayStart = null;
+    logger.info('Daily loss counter reset', { day: today, timeZone: this.timeZone });
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    const tmpPath = `${this.statePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(this.state, null, 2), 'utf8');
+    await fs.rename(tmpPath, this.statePath);
+  }
+}
@@ -0,0 +1,264 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { TradeExecutor } from '../execution/trade-executor';
+import { PnlTracker, SETTLED_STATUSES, VOIDED_STATUSES, settledMarketPnl } from './pnl-tracker';
+import { Notifier } from '../notifications/notifier';
+import { logger } from '../observability/logger';
+
+export interface SettlementSettings {
+  intervalMs: number;
+  stuckAfterHours: number;
+  claimWinnings: boolean;
+  maxClaimAttempts: number;
+}
+
+export type SettlementStatus = 'open' | 'settled' | 'voided' | 'claimed';
+
+export interface TrackedSettlement {
+  marketPk: string;
+  marketTitle: string;
+  marketStatus: string;
+  status: SettlementStatus;
+  marketLockTimestamp: number;
+  firstSeenAt: string;
+  statusChangedAt: string;
+  resolvedAt?: string;
+  pnl?: number;
+  claimSignature?: string;
+  claimedAt?: string;
+  claimAttempts: number;
+  lastError?: string;
+  stuckReportedAt?: string;
+}
+
+interface SettlementState {
+  settlements: TrackedSettlement[];
+  claimedMarkets: string[];
+}
+
+const STUCK_REPORT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const CLAIMED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function isStuck(settlement: TrackedSettlement, stuckAfterHours: number, now: number): boolean {
+  return settlement.status === 'open'
+    && settlement.marketLockTimestamp > 0
+    && now - settlement.marketLockTimestamp * 1000 > stuckAfterHours * 60 * 60 * 1000;
+}
+
+export class SettlementTracker {
+  private executor: TradeExecutor;
+  private owner: PublicKey;
+  private pnlTracker?: PnlTracker;
+  private notifier?: Notifier;
+  private statePath: string;
+  private settings: SettlementSettings;
+  private settlements: Map<string, TrackedSettlement> = new Map();
+  // Markets pruned after claiming; claimed positions stay on chain, so this stops them being tracked again.
+  private claimedMarkets: Set<string> = new Set();
+  private lastRunAt: number = 0;
+
+  constructor(
+    executor: TradeExecutor,
+    owner: PublicKey,
+    statePath: string,
+    settings: SettlementSettings,
+    pnlTracker?: PnlTracker,
+    notifier?: Notifier
+  ) {
+    this.executor = executor;
+    this.owner = owner;
+    this.statePath = statePath;
+    this.settings = settings;
+    this.pnlTracker = pnlTracker;
+    this.notifier = notifier;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const contents = await fs.readFile(this.statePath, 'utf8');
+      const parsed: SettlementState | TrackedSettlement[] = JSON.parse(contents);
+      // Older state files hold only the settlements array.
+      const state = Array.isArray(parsed) ? { settlements: parsed, claimedMarkets: [] } : parsed;
+      this.settlements = new Map(state.settlements.map(s => [s.marketPk, s]));
+      this.claimedMarkets = new Set(state.claimedMarkets || []);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  getSettlements(): TrackedSettlement[] {
+    return [...this.settlements.values()];
+  }
+
+  // Settled, voided and claimed markets no longer carry open exposure.
+  isResolved(marketPk: string): boolean {
+    const settlement = this.settlements.get(marketPk);
+    return this.claimedMarkets.has(marketPk) || (settlement !== undefined && settlement.status !== 'open');
+  }
+
+  getStuck(now: number = Date.now()): TrackedSettlement[] {
+    return this.getSettlements().filter(s => isStuck(s, this.settings.stuckAfterHours, now));
+  }
+
+  async runIfDue(now: number = Date.now()): Promise<void> {
+    if (now - this.lastRunAt < this.settings.intervalMs) return;
+    this.lastRunAt = now;
+    await this.run(now);
+  }
+
+  async run(now: number = Date.now()): Promise<void> {
+    const positions = await this.executor.getMonacoPositions(this.owner);
+
+    for (const pos of positions) {
+      const marketPk = pos.marketPk.toBase58();
+      if (this.settlements.has(marketPk) || this.claimedMarkets.has(marketPk)) continue;
+      if (pos.matchedAmount + pos.pendingAmount <= 0) continue;
+
+      this.settlements.set(marketPk, {
+        marketPk,
+        marketTitle: pos.marketTitle,
+        marketStatus: 'unknown',
+        status: 'open',
+        marketLockTimestamp: 0,
+        firstSeenAt: new Date(now).toISOString(),
+        statusChangedAt: new Date(now).toISOString(),
+        claimAttempts: 0,
+      });
+    }
+
+    for (const settlement of this.settlements.values()) {
+      if (settlement.status === 'claimed') continue;
+
+      try {
+        await this.checkMarket(settlement, now);
+      } catch (error) {
+        settlement.lastError = error instanceof Error ? error.message : String(error);
+        logger.error('Error checking market settlement', { market: settlement.marketPk, error });
+      }
+    }
+
+    this.prune(now);
+    await this.save();
+  }
+
+  private async checkMarket(settlement: TrackedSettlement, now: number): Promise<void> {
+    const marketPk = new PublicKey(settlement.marketPk);
+
+    if (settlement.status === 'open') {
+      const market = await this.executor.getMonacoClient().getMarket(marketPk);
+      if (!market) return;
+
+      settlement.marketTitle = market.marketTitle || settlement.marketTitle;
+      settlement.marketLockTimestamp = market.marketLockTimestamp;
+
+      if (market.marketStatus !== settlement.marketStatus) {
+        logger.info('Market status changed', {
+          market: settlement.marketPk,
+          from: settlement.marketStatus,
+          to: market.marketStatus,
+        });
+        settlement.marketStatus = market.marketStatus;
+        settlement.statusChangedAt = new Date(now).toISOString();
+      }
+
+      if (VOIDED_STATUSES.includes(market.marketStatus)) {
+        await this.resolve(settlement, 'voided', 0, now);
+      } else if (SETTLED_STATUSES.includes(market.marketStatus)) {
+        const position = await this.executor.getMarketPosition(this.owner, marketPk);
+        await this.resolve(settlement, 'settled', settledMarketPnl(position, market.marketWinningOutcomeIndex), now);
+      } else {
+        this.reportIfStuck(settlement, now);
+        return;
+      }
+    }
+
+    if (this.settings.claimWinnings) {
+      await this.claim(settlement, now);
+    }
+  }
+
+  private async resolve(
+    settlement: TrackedSettlement,
+    status: 'settled' | 'voided',
+    pnl: number,
+    now: number
+  ): Promise<void> {
+    settlement.status = status;
+    settlement.pnl = pnl;
+    settlement.resolvedAt = new Date(now).toISOString();
+
+    logger.info('Market resolved', { market: settlement.marketPk, status, pnl });
+    await this.pnlTracker?.recordRealized(settlement.marketPk, pnl);
+  }
+
+  private async claim(settlement: TrackedSettlement, now: number): Promise<void> {
+    if (settlement.claimAttempts >= this.settings.maxClaimAttempts) return;
+
+    settlement.claimAttempts++;
+
+    try {
+      const signature = await this.executor.claimMarketPosition(
+        new PublicKey(settlement.marketPk),
+        settlement.status === 'voided'
+      );
+
+      settlement.status = 'claimed';
+      settlement.claimSignature = signature ?? undefined;
+      settlement.claimedAt = new Date(now).toISOString();
+      settlement.lastError = undefined;
+
+      logger.info(signature ? 'Claimed market payout' : 'Market payout already claimed', {
+        market: settlement.marketPk,
+        signature: signature ?? undefined,
+      });
+    } catch (error) {
+      settlement.lastError = error instanceof Error ? error.message : String(error);
+      logger.error('Error claiming market payout', {
+        market: settlement.marketPk,
+        attempt: settlement.claimAttempts,
+        maxAttempts: this.settings.maxClaimAttempts,
+        error,
+      });
+    }
+  }
+
+  private reportIfStuck(settlement: TrackedSettlement, now: number): void {
+    if (!isStuck(settlement, this.settings.stuckAfterHours, now)) return;
+
+    const lastReport = settlement.stuckReportedAt ? new Date(settlement.stuckReportedAt).getTime() : 0;
+    if (now - lastReport < STUCK_REPORT_INTERVAL_MS) return;
+
+    settlement.stuckReportedAt = new Date(now).toISOString();
+    const hoursSinceLock = Math.round((now / 1000 - settlement.marketLockTimestamp) / 3600);
+
+    logger.warn('Position stuck on unsettled market', {
+      market: settlement.marketPk,
+      marketStatus: settlement.marketStatus,
+      hoursSinceLock,
+    });
+    this.notifier?.notify(
+      'position_stuck',
+      'Position stuck on unsettled market',
+      `${settlement.marketTitle || settlement.marketPk} locked ${hoursSinceLock}h ago and has not settled`,
+      { market: settlement.marketPk, marketStatus: settlement.marketStatus, hoursSinceLock }
+    );
+  }
+
+  private prune(now: number): void {
+    for (const [marketPk, settlement] of this.settlements) {
+      if (settlement.claimedAt && now - new Date(settlement.claimedAt).getTime() > CLAIMED_RETENTION_MS) {
+        this.settlements.delete(marketPk);
+        this.claimedMarkets.add(marketPk);
+      }
+    }
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    const tmpPath = `${this.statePath}.tmp`;
+    const state: SettlementState = { settlements: this.getSettlements(), claimedMarkets: [...this.claimedMarkets] };
+    await fs.writeFile(tmpPath, JSON.stringify(state, null, 2), 'utf8');
+    await fs.rename(tmpPath, this.statePath);
+  }
+}
@@ -0,0 +1,246 @@
+import * as http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import type { CopyTradingBot } from '../bot';
+import { logger } from '../observability/logger';
+
+export interface ControlApiSettings {
+  port?: number;
+  host: string;
+  token?: string;
+}
+
+export interface ApiRequest {
+  method: string;
+  path: string;
+  query?: Record<string, string>;
+  headers: Record<string, string | string[] | undefined>;
+  body?: any;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: any;
+}
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  handler: (req: ApiRequest, params: string[]) => Promise<ApiResponse> | ApiResponse;
+};
+
+const ok = (body: any): ApiResponse => ({ status: 200, body });
+const error = (status: number, message: string): ApiResponse => ({ status, body: { error: message } });
+
+function isPublicKey(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class ControlApi {
+  private bot: CopyTradingBot;
+  private token: Buffer;
+  private routes: Route[];
+
+  constructor(bot: CopyTradingBot, token: string) {
+    this.bot = bot;
+    this.token = Buffer.from(token);
+    this.routes = [
+      { method: 'GET', pattern: /^\/status$/, handler: () => ok(this.bot.getStatus()) },
+      { method: 'GET', pattern: /^\/positions$/, handler: async () => ok(await this.bot.getPositions()) },
+      { method: 'GET', pattern: /^\/orders$/, handler: () => ok(this.bot.getOpenOrders()) },
+      { method: 'GET', pattern: /^\/pnl$/, handler: () => ok(this.bot.getDailyPnl()) },
+      { method: 'GET', pattern: /^\/settlements$/, handler: () => ok(this.bot.getSettlements()) },
+      { method: 'GET', pattern: /^\/consensus$/, handler: () => ok(this.bot.getConsensusSignals()) },
+      { method: 'GET', pattern: /^\/decisions$/, handler: req => this.decisions(req) },
+      { method: 'POST', pattern: /^\/pause$/, handler: req => this.setPaused(req, true) },
+      { method: 'POST', pattern: /^\/resume$/, handler: req => this.setPaused(req, false) },
+      { method: 'POST', pattern: /^\/targets$/, handler: req => this.addTarget(req) },
+      { method: 'DELETE', pattern: /^\/targets\/([^/]+)$/, handler: (_req, [address]) => this.removeTarget(address) },
+      { method: 'POST', pattern: /^\/kill-switch$/, handler: async () => ok(await this.bot.killSwitch()) },
+    ];
+  }
+
+  async handle(req: ApiRequest): Promise<ApiResponse> {
+    if (!this.isAuthorized(req)) {
+      return error(401, 'missing or invalid bearer token');
+    }
+
+    const matching = this.routes.filter(route => route.pattern.test(req.path));
+    if (matching.length === 0) {
+      return error(404, `no route for ${req.path}`);
+    }
+
+    const route = matching.find(r => r.method === req.method);
+    if (!route) {
+      return error(405, `${req.method} not allowed on ${req.path}`);
+    }
+
+    try {
+      const params = route.pattern.exec(req.path)!.slice(1).map(decodeURIComponent);
+      return await route.handler(req, params);
+    } catch (err) {
+      return error(500, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  private isAuthorized(req: ApiRequest): boolean {
+    const header = req.headers['authorization'];
+    const value = Array.isArray(header) ? header[0] : header;
+    if (!value || !value.startsWith('Bearer ')) return false;
+
+    const presented = Buffer.from(value.slice('Bearer '.length));
+    return presented.length === this.token.length && timingSafeEqual(presented, this.token);
+  }
+
+  private decisions(req: ApiRequest): ApiResponse {
+    const limit = Math.min(500, Math.max(1, parseInt(req.query?.limit || '50', 10) || 50));
+    return ok(this.bot.getRecentDecisions(limit, req.query?.leader));
+  }
+
+  private async setPaused(req: ApiRequest, paused: boolean): Promise<ApiResponse> {
+    const leader = req.body?.leader;
+    if (leader !== undefined && !isPublicKey(leader)) {
+      return error(400, 'leader must be a valid public key');
+    }
+
+    if (paused) {
+      await this.bot.pause(leader);
+    } else {
+      await this.bot.resume(leader);
+    }
+    return ok(this.bot.getStatus());
+  }
+
+  private addTarget(req: ApiRequest): ApiResponse {
+    const address = req.body?.address;
+    if (!isPublicKey(address)) {
+      return error(400, 'address must be a valid public key');
+    }
+
+    const added = this.bot.addTarget(address);
+    return { status: added ? 201 : 200, body: { added, targets: this.bot.getStatus().targets } };
+  }
+
+  private async removeTarget(address: string): Promise<ApiResponse> {
+    if (!isPublicKey(address)) {
+      return error(400, 'address must be a valid public key');
+    }
+
+    const removed = await this.bot.removeTarget(address);
+    if (!removed) {
+      return error(404, `${address} is not a target`);
+    }
+    return ok({ removed, targets: this.bot.getStatus().targets });
+  }
+}
+
+export class ControlServer {
+  private api: ControlApi;
+  private port: number;
+  private host: string;
+  private server?: http.Server;
+
+  constructor(api: ControlApi, port: number, host: string) {
+    this.api = api;
+    this.port = port;
+    this.host = host;
+  }
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => this.onRequest(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, this.host, () => resolve());
+    });
+
+    logger.info('Control API listening', { url: `http://${this.host}:${this.port}` });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+
+  private async onRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    let response: ApiResponse;
+
+    try {
+      const raw = await this.readBody(req);
+      response = await this.api.handle({
+        method: req.method || 'GET',
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+    } catch (err) {
+      response = error(400, err instanceof SyntaxError ? 'request body is not valid JSON' : String(err));
+    }
+
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', chunk => {
+        body += chunk;
+        if (body.length > 64 * 1024) {
+          reject(new Error('request body too large'));
+          req.destroy();
+        }
+      });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+}
+
+export class InProcessControlClient {
+  private api: ControlApi;
+  private token: string;
+
+  constructor(api: ControlApi, token: string) {
+    this.api = api;
+    this.token = token;
+  }
+
+  async request(method: string, pathWithQuery: string, body?: any): Promise<ApiResponse> {
+    const url = new URL(pathWithQuery, 'http://localhost');
+
+    const response = await this.api.handle({
+      method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: { authorization: `Bearer ${this.token}` },
+      body: body === undefined ? undefined : JSON.parse(JSON.stringify(body)),
+    });
+
+    return { status: response.status, body: JSON.parse(JSON.stringify(response.body ?? null)) };
+  }
+
+  get(path: string): Promise<ApiResponse> {
+    return this.request('GET', path);
+  }
+
+  post(path: string, body?: any): Promise<ApiResponse> {
+    return this.request('POST', path, body);
+  }
+
+  delete(path: string): Promise<ApiResponse> {
+    return this.request('DELETE', path);
+  }
+}
@@ -0,0 +1,327 @@
+import { MonacoTransactionParser } from '../prediction-markets/monaco-transaction-parser';
+import { LeaderProfile } from '../leaders/leader-profiles';
+import { dayKey } from '../accounting/pnl-tracker';
+import { CopySizingSettings, sizeCopyTrade } from '../sizing/copy-sizing';
+import { oppositeSide } from '../sizing/fade-sizing';
+import { orderLiability } from '../sizing/position-sizer';
+import { outcomeProfits } from '../prediction-markets/market-exposure';
+import { ExposureSnapshot, RiskEngine, RiskRule } from '../risk/risk-engine';
+import {
+  leaderCooldownRule,
+  maxMarketExposureRule,
+  maxOpenMarketsRule,
+  maxPriceRule,
+  RiskLimits,
+} from '../risk/rules';
+import { DumpedMarket, restoreTransaction, TransactionDump } from './transaction-dump';
+
+export type BacktestTradeStatus = 'won' | 'lost' | 'void' | 'open';
+
+export interface BacktestOptions {
+  profile: LeaderProfile;
+  settings: CopySizingSettings;
+  timeZone: string;
+  followerBankroll: number;
+  leaderBankroll?: number;
+  riskLimits?: RiskLimits;
+}
+
+export interface BacktestTrade {
+  signature: string;
+  time: number;
+  leaderOrderPk?: string;
+  marketPk: string;
+  outcomeIndex: number;
+  orderType: 'back' | 'lay';
+  leaderStake: number;
+  price: number;
+  stake: number;
+  risk: number;
+  status: BacktestTradeStatus;
+  pnl: number;
+  // The leader cancelled their order after we copied it.
+  leaderCancelled?: boolean;
+}
+
+export interface MarketBreakdown {
+  marketPk: string;
+  marketTitle: string;
+  marketStatus: string;
+  trades: number;
+  risked: number;
+  pnl: number;
+}
+
+export interface BacktestReport {
+  target: string;
+  from: string;
+  to: string;
+  leaderTrades: number;
+  copiedTrades: number;
+  skipped: Record<string, number>;
+  settledTrades: number;
+  openTrades: number;
+  // Copies whose leader order was cancelled afterwards; their matched stake still settles.
+  cancelledTrades: number;
+  wins: number;
+  losses: number;
+  hitRate: number;
+  totalRisked: number;
+  pnl: number;
+  roi: number;
+  maxDrawdown: number;
+  markets: MarketBreakdown[];
+  trades: BacktestTrade[];
+  // What the replay assumes where the dump cannot tell, shown with the results.
+  assumptions: string[];
+}
+
+// The dump holds the leader's instructions but not how their orders or our copies filled.
+export const BACKTEST_ASSUMPTIONS = [
+  'Copies match in full at the leader\'s price when placed.',
+  'A leader\'s cancel only voids the unmatched part of our copy, which is none under full matching, so the copied stake settles with the market.',
+];
+
+export function settleTrade(
+  trade: Pick<BacktestTrade, 'orderType' | 'outcomeIndex' | 'stake' | 'price'>,
+  market?: DumpedMarket
+): { status: BacktestTradeStatus; pnl: number } {
+  if (!market) return { status: 'open', pnl: 0 };
+
+  if (market.marketStatus === 'voided') {
+    return { status: 'void', pnl: 0 };
+  }
+
+  if (!['settled', 'readyToClose', 'closed'].includes(market.marketStatus)
+    || market.marketWinningOutcomeIndex === null) {
+    return { status: 'open', pnl: 0 };
+  }
+
+  const outcomeWon = market.marketWinningOutcomeIndex === trade.outcomeIndex;
+
+  if (trade.orderType === 'back') {
+    return outcomeWon
+      ? { status: 'won', pnl: trade.stake * (trade.price - 1) }
+      : { status: 'lost', pnl: -trade.stake };
+  }
+
+  return outcomeWon
+    ? { status: 'lost', pnl: -trade.stake * (trade.price - 1) }
+    : { status: 'won', pnl: trade.stake };
+}
+
+// Only the rules that need nothing but the replayed trades; event, lock time, in-play and
+// liquidity checks depend on live market data the dump does not have.
+export function backtestRiskRules(limits: RiskLimits): RiskRule[] {
+  const rules: RiskRule[] = [];
+
+  if (limits.maxPrice) rules.push(maxPriceRule(limits.maxPrice));
+  if (limits.leaderCooldownMs) rules.push(leaderCooldownRule(limits.leaderCooldownMs));
+  if (limits.maxOpenMarkets) rules.push(maxOpenMarketsRule(limits.maxOpenMarkets));
+  if (limits.maxMarketExposure) rules.push(maxMarketExposureRule(limits.maxMarketExposure));
+
+  return rules;
+}
+
+// Worst-case loss of the copies still open at `time`, per market. The extra outcome index
+// stands for any outcome none of the copies are on.
+function backtestExposure(trades: BacktestTrade[], dump: TransactionDump, time: number): ExposureSnapshot {
+  const legsByMarket = new Map<string, BacktestTrade[]>();
+
+  for (const trade of trades) {
+    const settledAt = dump.markets[trade.marketPk]?.marketSettleTimestamp;
+    if (settledAt !== undefined && settledAt <= time) continue;
+
+    legsByMarket.set(trade.marketPk, [...(legsByMarket.get(trade.marketPk) || []), trade]);
+  }
+
+  const byMarket = new Map<string, number>();
+  for (const [marketPk, legs] of legsByMarket) {
+    const indexes = [...new Set(legs.map(leg => leg.outcomeIndex)), -1];
+    const worst = Math.min(...outcomeProfits(legs, indexes));
+    byMarket.set(marketPk, Math.max(0, -worst));
+  }
+
+  return { byMarket, byEvent: new Map(), openMarkets: new Set(byMarket.keys()) };
+}
+
+export function runBacktest(
+  dump: TransactionDump,
+  parser: MonacoTransactionParser,
+  options: BacktestOptions
+): BacktestReport {
+  const trades: BacktestTrade[] = [];
+  const byLeaderOrder = new Map<string, BacktestTrade>();
+  const skipped: Record<string, number> = {};
+  const spentByDay = new Map<string, number>();
+  const riskEngine = new RiskEngine(backtestRiskRules(options.riskLimits || { allowInplay: true }));
+  let lastCopyAt: number | undefined;
+  let leaderTrades = 0;
+
+  for (const dumped of dump.transactions) {
+    if (dumped.err) continue;
+
+    const time = dumped.blockTime || 0;
+    const instructions = parser.decodeInstructions(restoreTransaction(dumped));
+
+    for (const ix of instructions) {
+      if (ix.purchaserPk && ix.purchaserPk.toBase58() !== dump.target) continue;
+
+      if (ix.kind === 'cancelOrder') {
+        const copied = byLeaderOrder.get(ix.orderPk.toBase58());
+        if (copied) {
+          copied.leaderCancelled = true;
+        }
+        continue;
+      }
+
+      if (ix.kind !== 'createOrder') continue;
+      leaderTrades++;
+
+      const leaderStake = parser.stakeOf(ix);
+      if (leaderStake === null) {
+        skipped['unknown mint decimals'] = (skipped['unknown mint decimals'] || 0) + 1;
+        continue;
+      }
+
+      const leaderOrderType = ix.forOutcome ? 'back' : 'lay';
+      const orderType = options.profile.fade ? oppositeSide(leaderOrderType) : leaderOrderType;
+      const day = dayKey(new Date(time * 1000), options.timeZone);
+      const sizing = sizeCopyTrade({
+        profile: options.profile,
+        marketAddress: ix.marketPk.toBase58(),
+        leaderStake,
+        orderType,
+        price: ix.price,
+        leaderBalance: options.leaderBankroll ?? null,
+        followerBalance: options.followerBankroll,
+        // The dump has no ladder, so Kelly falls back to the leader's own price for the market's probability.
+        impliedProbability: null,
+        spentToday: spentByDay.get(day) || 0,
+      }, options.settings);
+
+      if (!sizing.copy) {
+        skipped[sizing.reason] = (skipped[sizing.reason] || 0) + 1;
+        continue;
+      }
+
+      // Copies fill at the leader's price in a backtest, so that is also the limit price.
+      const risk = riskEngine.evaluate({
+        leader: dump.target,
+        trade: { marketAddress: ix.marketPk, outcomeIndex: ix.outcomeIndex, orderType, amount: leaderStake, price: ix.price },
+        stake: sizing.amount,
+        limitPrice: ix.price,
+        market: null,
+        outcomePrices: null,
+        exposure: backtestExposure(trades, dump, time),
+        lastCopyAt,
+        now: time * 1000,
+      });
+
+      if (risk.action === 'reject') {
+        const reason = risk.reasons.join('; ');
+        skipped[reason] = (skipped[reason] || 0) + 1;
+        continue;
+      }
+
+      const stake = risk.amount;
+      spentByDay.set(day, (spentByDay.get(day) || 0) + stake);
+      lastCopyAt = time * 1000;
+
+      const trade: BacktestTrade = {
+        signature: dumped.signature,
+        time,
+        leaderOrderPk: ix.orderPk?.toBase58(),
+        marketPk: ix.marketPk.toBase58(),
+        outcomeIndex: ix.outcomeIndex,
+        orderType,
+        leaderStake,
+        price: ix.price,
+        stake,
+        risk: orderLiability(orderType, stake, ix.price),
+        status: 'open',
+        pnl: 0,
+      };
+
+      trades.push(trade);
+      if (trade.leaderOrderPk) {
+        byLeaderOrder.set(trade.leaderOrderPk, trade);
+      }
+    }
+  }
+
+  for (const trade of trades) {
+    const settlement = settleTrade(trade, dump.markets[trade.marketPk]);
+    trade.status = settlement.status;
+    trade.pnl = settlement.pnl;
+  }
+
+  return buildReport(dump, trades, leaderTrades, skipped);
+}
+
+function buildReport(
+  dump: TransactionDump,
+  trades: BacktestTrade[],
+  leaderTrades: number,
+  skipped: Record<string, number>
+): BacktestReport {
+  const settled = trades.filter(t => t.status === 'won' || t.status === 'lost' || t.status === 'void');
+  const wins = settled.filter(t => t.status === 'won').length;
+  const losses = settled.filter(t => t.status === 'lost').length;
+  const totalRisked = settled.reduce((sum, t) => sum + t.risk, 0);
+  const pnl = settled.reduce((sum, t) => sum + t.pnl, 0);
+
+  const settleTime = (trade: BacktestTrade) =>
+    dump.markets[trade.marketPk]?.marketSettleTimestamp || trade.time;
+
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const trade of [...settled].sort((a, b) => settleTime(a) - settleTime(b))) {
+    cumulative += trade.pnl;
+    peak = Math.max(peak, cumulative);
+    maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+  }
+
+  const markets = new Map<string, MarketBreakdown>();
+  for (const trade of trades) {
+    const market = dump.markets[trade.marketPk];
+    const breakdown = markets.get(trade.marketPk) || {
+      marketPk: trade.marketPk,
+      marketTitle: market?.marketTitle || '',
+      marketStatus: market?.marketStatus || 'unknown',
+      trades: 0,
+      risked: 0,
+      pnl: 0,
+    };
+
+    breakdown.trades++;
+    breakdown.risked += trade.risk;
+    breakdown.pnl += trade.pnl;
+    markets.set(trade.marketPk, breakdown);
+  }
+
+  const times = dump.transactions.map(t => t.blockTime || 0).filter(Boolean);
+
+  return {
+    target: dump.target,
+    from: new Date((times.length ? Math.min(...times) : dump.since) * 1000).toISOString(),
+    to: new Date((times.length ? Math.max(...times) : dump.since) * 1000).toISOString(),
+    leaderTrades,
+    copiedTrades: trades.length,
+    skipped,
+    settledTrades: settled.length,
+    openTrades: trades.filter(t => t.status === 'open').length,
+    cancelledTrades: trades.filter(t => t.leaderCancelled).length,
+    wins,
+    losses,
+    hitRate: wins + losses > 0 ? wins / (wins + losses) : 0,
+    totalRisked,
+    pnl,
+    roi: totalRisked > 0 ? pnl / totalRisked : 0,
+    maxDrawdown,
+    markets: [...markets.values()].sort((a, b) => b.pnl - a.pnl),
+    trades,
+    assumptions: BACKTEST_ASSUMPTIONS,
+  };
+}
@@ -0,0 +1,161 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { promises as fs } from 'fs';
+import { Config } from '../config';
+import { LeaderProfileRegistry } from '../leaders/leader-profiles';
+import { MonacoProtocolIntegration } from '../prediction-markets/monaco-protocol';
+import { MonacoTransactionParser } from '../prediction-markets/monaco-transaction-parser';
+import { KeypairSigner } from '../wallet/wallet-signer';
+import { SizingStrategy, SIZING_STRATEGIES } from '../sizing/position-sizer';
+import { BacktestReport, runBacktest } from './backtester';
+import { buildDump, loadMintDecimals } from './history-source';
+import { loadDump, saveDump, TransactionDump } from './transaction-dump';
+
+const USAGE = `Usage: npm run backtest -- --target <address> [options]
+
+Options:
+  --target <address>        Leader wallet to replay
+  --days <n>                History window in days (default 30)
+  --multiplier <x>          Copy multiplier (default COPY_MULTIPLIER)
+  --strategy <name>         Sizing strategy: ${SIZING_STRATEGIES.join(' | ')}
+  --bankroll <amount>       Our bankroll for proportional/Kelly sizing (default 100)
+  --leader-bankroll <amt>   Leader bankroll for proportional sizing
+  --fade                    Replay the leader's trades on the opposite side
+  --dump <file>             Replay offline from a cached transaction dump
+  --save-dump <file>        Save fetched history to a dump file
+  --report <file>           Write the full report as JSON`;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[arg.slice(2)] = 'true';
+    } else {
+      args[arg.slice(2)] = next;
+      i++;
+    }
+  }
+
+  return args;
+}
+
+function printReport(report: BacktestReport): void {
+  const pct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+  console.log(`\n📈 Backtest for ${report.target}`);
+  console.log(`   Window:          ${report.from} → ${report.to}`);
+  console.log(`   Leader trades:   ${report.leaderTrades}`);
+  console.log(`   Copied:          ${report.copiedTrades} (${report.settledTrades} settled, ${report.openTrades} open, ${report.cancelledTrades} cancelled by the leader)`);
+  console.log(`   Hit rate:        ${pct(report.hitRate)} (${report.wins}W / ${report.losses}L)`);
+  console.log(`   Risked:          ${report.totalRisked.toFixed(4)}`);
+  console.log(`   PnL:             ${report.pnl.toFixed(4)}`);
+  console.log(`   ROI:             ${pct(report.roi)}`);
+  console.log(`   Max drawdown:    ${report.maxDrawdown.toFixed(4)}`);
+
+  const skipped = Object.entries(report.skipped);
+  if (skipped.length > 0) {
+    console.log('\n   Skipped:');
+    for (const [reason, count] of skipped) {
+      console.log(`     ${count} × ${reason}`);
+    }
+  }
+
+  console.log('\n   Assumptions:');
+  for (const assumption of report.assumptions) {
+    console.log(`     ${assumption}`);
+  }
+
+  if (report.markets.length > 0) {
+    console.log('\n   Per market:');
+    for (const market of report.markets) {
+      const title = market.marketTitle || market.marketPk;
+      console.log(`     ${title} [${market.marketStatus}] trades=${market.trades} risked=${market.risked.toFixed(4)} pnl=${market.pnl.toFixed(4)}`);
+    }
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config = Config.load();
+  const connection = new Connection(config.rpcUrl, 'confirmed');
+  const parser = new MonacoTransactionParser(connection);
+
+  let dump: TransactionDump;
+
+  if (args.dump) {
+    dump = await loadDump(args.dump);
+    console.log(`📂 Loaded ${dump.transactions.length} transactions for ${dump.target} from ${args.dump}`);
+  } else {
+    if (!args.target) {
+      throw new Error(`--target is required unless --dump is given\n\n${USAGE}`);
+    }
+
+    const days = parseFloat(args.days || '30');
+    const since = Math.floor(Date.now() / 1000 - days * 86400);
+    const monaco = new MonacoProtocolIntegration(connection, new KeypairSigner(Keypair.generate()));
+
+    console.log(`🔎 Fetching ${days} days of history for ${args.target}...`);
+    dump = await buildDump(connection, monaco, new PublicKey(args.target), since, (scannedBackTo, found) => {
+      console.log(`   Scanned back to ${new Date(scannedBackTo * 1000).toISOString()}, ${found} Monaco transactions`);
+    });
+
+    if (args['save-dump']) {
+      await saveDump(args['save-dump'], dump);
+      console.log(`💾 Saved dump to ${args['save-dump']}`);
+    }
+  }
+
+  const profile = { ...new LeaderProfileRegistry(config.leaderProfiles).get(dump.target), enabled: true };
+  const settings = { ...config };
+
+  if (args.multiplier) {
+    settings.copyMultiplier = parseFloat(args.multiplier);
+    profile.copyMultiplier = settings.copyMultiplier;
+    profile.fixedStake = undefined;
+  }
+
+  if (args.strategy) {
+    const strategy = SIZING_STRATEGIES.find(s => s === args.strategy);
+    if (!strategy) {
+      throw new Error(`Unknown sizing strategy "${args.strategy}"`);
+    }
+    profile.sizingStrategy = strategy as SizingStrategy;
+  }
+
+  if (args.fade) {
+    profile.fade = true;
+  }
+
+  await loadMintDecimals(parser, dump);
+
+  const report = runBacktest(dump, parser, {
+    profile,
+    settings,
+    timeZone: config.pnlTimezone,
+    followerBankroll: parseFloat(args.bankroll || '100'),
+    leaderBankroll: args['leader-bankroll'] ? parseFloat(args['leader-bankroll']) : undefined,
+    riskLimits: config.riskLimits,
+  });
+
+  printReport(report);
+
+  if (args.report) {
+    await fs.writeFile(args.report, JSON.stringify(report, null, 2), 'utf8');
+    console.log(`\n💾 Report written to ${args.report}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Backtest failed:', error);
+  process.exit(1);
+});
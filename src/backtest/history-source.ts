@@ -0,0 +1,126 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { MonacoProtocolIntegration } from '../prediction-markets/monaco-protocol';
+import { MonacoTransactionParser } from '../prediction-markets/monaco-transaction-parser';
+import {
+  dumpTransaction,
+  restoreTransaction,
+  DumpedMarket,
+  DumpedTransaction,
+  TransactionDump,
+} from './transaction-dump';
+
+export async function fetchLeaderHistory(
+  connection: Connection,
+  target: PublicKey,
+  since: number,
+  maxTransactions: number = 5000,
+  onProgress?: (scannedBackTo: number, found: number) => void
+): Promise<DumpedTransaction[]> {
+  const parser = new MonacoTransactionParser(connection);
+  const transactions: DumpedTransaction[] = [];
+  let before: string | undefined;
+
+  while (transactions.length < maxTransactions) {
+    const page = await connection.getSignaturesForAddress(target, { limit: 100, before });
+    if (page.length === 0) break;
+
+    let reachedStart = false;
+
+    for (const sigInfo of page) {
+      if (sigInfo.blockTime && sigInfo.blockTime < since) {
+        reachedStart = true;
+        break;
+      }
+
+      const tx = await connection.getTransaction(sigInfo.signature, {
+        maxSupportedTransactionVersion: 0,
+      });
+
+      if (tx && parser.isMonacoTransaction(tx)) {
+        transactions.push(dumpTransaction(sigInfo.signature, tx));
+      }
+    }
+
+    onProgress?.(page[page.length - 1].blockTime || 0, transactions.length);
+
+    if (reachedStart || page.length < 100) break;
+    before = page[page.length - 1].signature;
+  }
+
+  return transactions.reverse();
+}
+
+export async function fetchMarkets(
+  monaco: MonacoProtocolIntegration,
+  marketPks: string[]
+): Promise<Record<string, DumpedMarket>> {
+  const markets: Record<string, DumpedMarket> = {};
+
+  for (const marketPk of marketPks) {
+    const market = await monaco.getMarket(new PublicKey(marketPk));
+    if (!market) continue;
+
+    markets[marketPk] = {
+      marketPk,
+      marketTitle: market.marketTitle,
+      marketStatus: market.marketStatus,
+      marketWinningOutcomeIndex: market.marketWinningOutcomeIndex,
+      marketSettleTimestamp: market.marketSettleTimestamp,
+    };
+  }
+
+  return markets;
+}
+
+function marketKeys(parser: MonacoTransactionParser, transactions: DumpedTransaction[]): string[] {
+  const marketPks = new Set<string>();
+
+  for (const dumped of transactions) {
+    for (const ix of parser.decodeInstructions(restoreTransaction(dumped))) {
+      marketPks.add(ix.marketPk.toBase58());
+    }
+  }
+
+  return [...marketPks];
+}
+
+// Dumps saved before mint decimals were recorded fall back to reading each market's mint.
+export async function loadMintDecimals(parser: MonacoTransactionParser, dump: TransactionDump): Promise<void> {
+  for (const marketPk of marketKeys(parser, dump.transactions)) {
+    const decimals = dump.markets[marketPk]?.mintDecimals;
+
+    if (decimals !== undefined) {
+      parser.setMintDecimals(new PublicKey(marketPk), decimals);
+    } else {
+      await parser.loadMintDecimals(new PublicKey(marketPk));
+    }
+  }
+}
+
+export async function buildDump(
+  connection: Connection,
+  monaco: MonacoProtocolIntegration,
+  target: PublicKey,
+  since: number,
+  onProgress?: (scannedBackTo: number, found: number) => void
+): Promise<TransactionDump> {
+  const transactions = await fetchLeaderHistory(connection, target, since, undefined, onProgress);
+  const parser = new MonacoTransactionParser(connection);
+  const marketPks = marketKeys(parser, transactions);
+  const markets = await fetchMarkets(monaco, marketPks);
+
+  for (const marketPk of marketPks) {
+    const decimals = await parser.loadMintDecimals(new PublicKey(marketPk));
+    if (markets[marketPk] && decimals !== null) {
+      markets[marketPk].mintDecimals = decimals;
+    }
+  }
+
+  return {
+    target: target.toBase58(),
+    createdAt: new Date().toISOString(),
+    since,
+    transactions,
+    markets,
+  };
+}
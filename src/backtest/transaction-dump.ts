@@ -0,0 +1,72 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PublicKey, VersionedMessage } from '@solana/web3.js';
+
+export interface DumpedTransaction {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  err: any;
+  message: string;
+  loadedAddresses?: { writable: string[]; readonly: string[] };
+}
+
+export interface DumpedMarket {
+  marketPk: string;
+  marketTitle: string;
+  marketStatus: string;
+  marketWinningOutcomeIndex: number | null;
+  marketSettleTimestamp?: number;
+  mintDecimals?: number;
+}
+
+export interface TransactionDump {
+  target: string;
+  createdAt: string;
+  since: number;
+  transactions: DumpedTransaction[];
+  markets: Record<string, DumpedMarket>;
+}
+
+export function dumpTransaction(signature: string, tx: any): DumpedTransaction {
+  const loaded = tx.meta?.loadedAddresses;
+
+  return {
+    signature,
+    slot: tx.slot,
+    blockTime: tx.blockTime ?? null,
+    err: tx.meta?.err ?? null,
+    message: Buffer.from(tx.transaction.message.serialize()).toString('base64'),
+    loadedAddresses: loaded ? {
+      writable: loaded.writable.map((key: PublicKey) => key.toBase58()),
+      readonly: loaded.readonly.map((key: PublicKey) => key.toBase58()),
+    } : undefined,
+  };
+}
+
+export function restoreTransaction(dumped: DumpedTransaction): any {
+  return {
+    slot: dumped.slot,
+    blockTime: dumped.blockTime,
+    transaction: {
+      message: VersionedMessage.deserialize(Buffer.from(dumped.message, 'base64')),
+      signatures: [dumped.signature],
+    },
+    meta: {
+      err: dumped.err,
+      loadedAddresses: dumped.loadedAddresses ? {
+        writable: dumped.loadedAddresses.writable.map(key => new PublicKey(key)),
+        readonly: dumped.loadedAddresses.readonly.map(key => new PublicKey(key)),
+      } : undefined,
+    },
+  };
+}
+
+export async function loadDump(filePath: string): Promise<TransactionDump> {
+  return JSON.parse(await fs.readFile(filePath, 'utf8'));
+}
+
+export async function saveDump(filePath: string, dump: TransactionDump): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(dump, null, 2), 'utf8');
+}
@@ -1,36 +1,172 @@
-import { Connection, PublicKey, Keypair, Transaction, SystemProgram } from '@solana/web3.js';
+import { Connection, PublicKey, Keypair, Transaction, SystemProgram, ConfirmedSignatureInfo } from '@solana/web3.js';
 import { BotConfig } from './config';
 import { MonacoPositionManager } from './prediction-markets/monaco-position-manager';
+import { TradeExecutor } from './execution/trade-executor';
+import { SendResult } from './execution/transaction-sender';
+import { WalletSigner } from './wallet/wallet-signer';
+import { PaperTradingExecutor } from './execution/paper-trading-executor';
 import { MonacoTransactionParser, ParsedMonacoTrade } from './prediction-markets/monaco-transaction-parser';
-import { MONACO_PROGRAM_ID } from './prediction-markets/monaco-protocol';
+import { MONACO_PROGRAM_ID, PlacedOrder } from './prediction-markets/monaco-protocol';
+import { DecodedCancelOrder } from './prediction-markets/monaco-instructions';
+import { applySlippage } from './prediction-markets/monaco-price-ladder';
+import { PauseStateStore } from './storage/pause-state';
+import { TradeJournal, CopyDecision, CopyAction, JournalEntry } from './storage/trade-journal';
+import { OrderLinkStore } from './storage/order-links';
+import { OrderMirror } from './orders/order-mirror';
+import { PnlTracker, PnlSnapshot, dayKey } from './accounting/pnl-tracker';
+import { SettlementTracker, TrackedSettlement } from './accounting/settlement-tracker';
+import { LeaderProfileRegistry } from './leaders/leader-profiles';
+import { ConsensusAggregator, ConsensusSignal } from './signals/consensus';
+import { resolveSizingStrategy, sizeCopyTrade } from './sizing/copy-sizing';
+import { fadeTrade } from './sizing/fade-sizing';
+import { TokenBalanceService } from './sizing/token-balances';
+import { RiskEngine } from './risk/risk-engine';
+import { createRiskRules } from './risk/rules';
+import { computeExposure } from './risk/exposure';
+import { fetchLatestSignature, fetchNewSignatures } from './ingestion/signature-pager';
+import { LeaderLogsSubscription } from './ingestion/logs-subscription';
+import { ConfigWatcher, watchedConfigPaths } from './config-watcher';
+import { TrackedOrder } from './orders/order-manager';
+import { MarketExposure } from './prediction-markets/market-exposure';
+import { logger, Logger } from './observability/logger';
+import { botMetrics, reasonLabel } from './observability/bot-metrics';
+import { Notifier } from './notifications/notifier';
+import { createNotifier } from './notifications/sinks';
 
 export interface ParsedTrade {
   marketAddress: PublicKey;
-  outcome: 'YES' | 'NO';
-  action: 'BUY' | 'SELL';
+  outcomeIndex: number;
+  outcomeTitle?: string;
+  orderType: 'back' | 'lay';
   amount: number;
   price?: number;
+  orderPk?: PublicKey;
+  slot?: number;
+  blockTime?: number;
+}
+
+const RESTART_REQUIRED_KEYS: (keyof BotConfig)[] = [
+  'rpcUrl',
+  'wsUrl',
+  'wallet',
+  'predictionMarketPrograms',
+  'orderLifecycle',
+  'execution',
+  'ingestionMode',
+  'journalPath',
+  'pauseStatePath',
+  'paperTrading',
+  'paperStatePath',
+  'orderLinksPath',
+  'ordersStatePath',
+  'leaderProfilesPath',
+  'pnlStatePath',
+  'pnlTimezone',
+  'settlement',
+  'settlementStatePath',
+  'configPath',
+  'controlApi',
+  'logging',
+  'metrics',
+  'notifications',
+];
+
+export interface BotStatus {
+  running: boolean;
+  mode: 'live' | 'paper' | 'disabled';
+  wallet: string;
+  paused: boolean;
+  pausedLeaders: string[];
+  tradingHalted: boolean;
+  ingestionMode: string;
+  targets: string[];
+}
+
+export interface KillSwitchResult {
+  cancelled: string[];
+  failed: { orderPk: string; error: string }[];
+}
+
+export interface CopyResult {
+  decision: CopyDecision;
+  action?: CopyAction;
+  reason?: string;
+  amount?: number;
+  signature?: string;
+  fillAmount?: number;
+  fillPrice?: number;
+  confirmation?: SendResult;
+  fade?: boolean;
 }
 
 export class CopyTradingBot {
   private connection: Connection;
-  private wallet: Keypair;
+  private wallet: WalletSigner;
   private config: BotConfig;
   private isRunning: boolean = false;
-  private lastProcessedSignatures: Set<string> = new Set();
-  private dailyLoss: number = 0;
-  private lastResetDate: string = new Date().toDateString();
-  private monacoPositionManager?: MonacoPositionManager;
+  private journal: TradeJournal;
+  private executor?: TradeExecutor;
+  private pnlTracker?: PnlTracker;
+  private settlements?: SettlementTracker;
+  private orderLinks: OrderLinkStore;
+  private orderMirror?: OrderMirror;
   private monacoParser: MonacoTransactionParser;
+  private logsSubscription?: LeaderLogsSubscription;
+  private leaderSyncs: Map<string, { running: Promise<void>; rerun: boolean }> = new Map();
+  private tradingHalted: boolean = false;
+  private paused: boolean = false;
+  private pausedLeaders: Set<string> = new Set();
+  private pauseState: PauseStateStore;
+  // Leaders added through the control API; they survive config reloads until removed.
+  private apiTargets: Set<string> = new Set();
+  private leaderProfiles: LeaderProfileRegistry;
+  private consensus: ConsensusAggregator = new ConsensusAggregator();
+  private tokenBalances: TokenBalanceService;
+  private riskEngine: RiskEngine;
+  private configWatcher?: ConfigWatcher;
+  private notifier: Notifier;
 
-  constructor(connection: Connection, wallet: Keypair, config: BotConfig) {
+  constructor(connection: Connection, wallet: WalletSigner, config: BotConfig) {
     this.connection = connection;
     this.wallet = wallet;
     this.config = config;
     this.monacoParser = new MonacoTransactionParser(connection);
+    this.journal = new TradeJournal(config.journalPath);
+    this.pauseState = new PauseStateStore(config.pauseStatePath);
+    this.leaderProfiles = new LeaderProfileRegistry(config.leaderProfiles);
+    this.tokenBalances = new TokenBalanceService(connection);
+    this.riskEngine = new RiskEngine(createRiskRules(config.riskLimits));
+    this.orderLinks = new OrderLinkStore(config.orderLinksPath);
+    this.notifier = createNotifier(config.notifications);
     
     if (this.isMonacoConfigured()) {
-      this.monacoPositionManager = new MonacoPositionManager(connection, wallet);
+      const positionManager = new MonacoPositionManager(
+        connection,
+        wallet,
+        config.ordersStatePath,
+        config.orderLifecycle,
+        config.execution
+      );
+      this.executor = config.paperTrading
+        ? new PaperTradingExecutor(positionManager, config.paperStatePath, config.orderLifecycle)
+        : positionManager;
+      this.pnlTracker = new PnlTracker(
+        this.executor,
+        wallet.publicKey,
+        config.pnlStatePath,
+        config.pnlTimezone,
+        this.journal,
+        this.notifier
+      );
+      this.settlements = new SettlementTracker(
+        this.executor,
+        wallet.publicKey,
+        config.settlementStatePath,
+        config.settlement,
+        this.pnlTracker,
+        this.notifier
+      );
+      this.orderMirror = new OrderMirror(this.executor, wallet.publicKey, this.orderLinks, config.slippage);
     }
   }
 
@@ -42,74 +178,324 @@ export class CopyTradingBot {
 
   async start(): Promise<void> {
     if (this.isRunning) {
-      console.log('⚠️  Bot is already running');
+      logger.warn('Bot is already running');
       return;
     }
 
+    await this.journal.load();
+    await this.orderLinks.load();
+    await this.executor?.load();
+    await this.pnlTracker?.load();
+    await this.settlements?.load();
+
+    const pauseState = await this.pauseState.load();
+    this.paused = pauseState.paused;
+    this.pausedLeaders = new Set(pauseState.pausedLeaders);
+
     this.isRunning = true;
-    console.log('✅ Bot started\n');
+    logger.info('Bot started', { mode: this.executor?.mode ?? 'disabled' });
+
+    if (this.paused || this.pausedLeaders.size > 0) {
+      logger.warn('Copying is still paused from before the restart', {
+        paused: this.paused,
+        pausedLeaders: [...this.pausedLeaders],
+      });
+    }
 
     if (this.config.targetAddresses.length === 0) {
-      console.warn('⚠️  No target addresses configured. Add TARGET_ADDRESSES to .env');
+      logger.warn('No target addresses configured, add TARGET_ADDRESSES to .env');
     }
 
     if (this.config.predictionMarketPrograms.length === 0) {
-      console.warn('⚠️  No prediction market programs configured. Add PREDICTION_MARKET_PROGRAMS to .env');
+      logger.warn('No prediction market programs configured, add PREDICTION_MARKET_PROGRAMS to .env');
+    }
+
+    const watchedPaths = watchedConfigPaths(this.config);
+    if (watchedPaths.length > 0) {
+      this.configWatcher = new ConfigWatcher(watchedPaths, config => this.applyConfig(config));
+      this.configWatcher.start();
     }
 
     this.monitorLoop();
   }
 
+  applyConfig(next: BotConfig): void {
+    const ignored = RESTART_REQUIRED_KEYS.filter(
+      key => JSON.stringify(this.config[key]) !== JSON.stringify(next[key])
+    );
+    if (ignored.length > 0) {
+      logger.warn('Config changes need a restart and were not applied', { keys: ignored });
+    }
+
+    const previousTargets = this.config.targetAddresses;
+    const restartOnly = Object.fromEntries(RESTART_REQUIRED_KEYS.map(key => [key, this.config[key]]));
+    this.config = {
+      ...next,
+      ...restartOnly,
+      targetAddresses: [...new Set([...next.targetAddresses, ...this.apiTargets])],
+    };
+
+    this.leaderProfiles.replaceAll(this.config.leaderProfiles);
+    this.riskEngine = new RiskEngine(createRiskRules(this.config.riskLimits));
+    if (this.executor) {
+      this.orderMirror = new OrderMirror(this.executor, this.wallet.publicKey, this.orderLinks, this.config.slippage);
+    }
+
+    const added = this.config.targetAddresses.filter(a => !previousTargets.includes(a));
+    const removed = previousTargets.filter(a => !this.config.targetAddresses.includes(a));
+
+    if (this.logsSubscription) {
+      for (const leader of removed) {
+        this.logsSubscription.unsubscribe(leader);
+      }
+      this.subscribeToLeaders(added);
+    }
+
+    logger.info('Config applied', {
+      leaders: this.config.targetAddresses.length,
+      added: added.length,
+      removed: removed.length,
+    });
+  }
+
   private async monitorLoop(): Promise<void> {
+    if (this.config.ingestionMode === 'websocket') {
+      this.logsSubscription = new LeaderLogsSubscription(this.connection);
+      this.subscribeToLeaders(this.config.targetAddresses);
+    }
+
     while (this.isRunning) {
+      const interval = this.config.ingestionMode === 'websocket'
+        ? this.config.gapFillInterval
+        : this.config.pollInterval;
+
       try {
-        this.resetDailyLossIfNeeded();
+        this.executor?.startPriceCycle();
+        this.tokenBalances.startCycle();
+        await this.manageOpenOrders();
+        await this.trackSettlements();
+        const dailyLoss = await this.refreshDailyLoss();
+        const wasHalted = this.tradingHalted;
+        this.tradingHalted = dailyLoss >= this.config.maxDailyLoss;
+        await this.updateGauges();
+
+        if (this.tradingHalted && !wasHalted) {
+          this.notifier.notify('daily_loss_limit', 'Daily loss limit reached', 'Copying is halted while the daily loss is at or above the limit', {
+            dailyLoss: dailyLoss.toFixed(4),
+            maxDailyLoss: this.config.maxDailyLoss,
+          });
+        }
 
-        if (this.dailyLoss >= this.config.maxDailyLoss) {
-          console.log(`⛔ Daily loss limit reached: ${this.dailyLoss} SOL`);
-          await this.sleep(this.config.pollInterval);
+        if (this.tradingHalted) {
+          logger.warn('Daily loss limit reached, copying halted', { dailyLoss, maxDailyLoss: this.config.maxDailyLoss });
+          await this.sleep(interval);
           continue;
         }
 
         for (const targetAddress of this.config.targetAddresses) {
-          await this.monitorAddress(targetAddress);
+          await this.syncLeader(targetAddress);
         }
 
-        await this.sleep(this.config.pollInterval);
+        await this.sleep(interval);
+      } catch (error) {
+        logger.error('Error in monitor loop', { error });
+        await this.sleep(interval);
+      }
+    }
+  }
+
+  private subscribeToLeaders(targetAddresses: string[]): void {
+    if (!this.logsSubscription) return;
+
+    for (const targetAddress of targetAddresses) {
+      try {
+        this.logsSubscription.subscribe(targetAddress, (leader, signature) => {
+          if (!this.isRunning || this.tradingHalted) return;
+
+          logger.debug('Leader activity', { leader, signature });
+          this.executor?.startPriceCycle();
+          this.tokenBalances.startCycle();
+          this.syncLeader(leader);
+        });
       } catch (error) {
-        console.error('❌ Error in monitor loop:', error);
-        await this.sleep(this.config.pollInterval);
+        logger.error('Error subscribing to leader', { leader: targetAddress, error });
       }
     }
   }
 
+  private syncLeader(targetAddress: string): Promise<void> {
+    const existing = this.leaderSyncs.get(targetAddress);
+    if (existing) {
+      existing.rerun = true;
+      return existing.running;
+    }
+
+    const sync = { running: Promise.resolve(), rerun: false };
+    sync.running = (async () => {
+      do {
+        sync.rerun = false;
+        await this.monitorAddress(targetAddress);
+      } while (sync.rerun && this.isRunning);
+
+      this.leaderSyncs.delete(targetAddress);
+    })();
+
+    this.leaderSyncs.set(targetAddress, sync);
+    return sync.running;
+  }
+
   private async monitorAddress(targetAddress: string): Promise<void> {
+    const log = logger.child({ leader: targetAddress });
+
     try {
       const publicKey = new PublicKey(targetAddress);
-      
-      const signatures = await this.connection.getSignaturesForAddress(
-        publicKey,
-        { limit: 10 }
-      );
+      const lastSignature = this.journal.getLastSignature(targetAddress);
 
-      for (const sigInfo of signatures) {
-        if (this.lastProcessedSignatures.has(sigInfo.signature)) {
-          continue; 
+      if (!lastSignature) {
+        const latest = await fetchLatestSignature(this.connection, publicKey);
+        if (latest) {
+          log.info('Following new leader from their latest transaction', { signature: latest.signature });
+          await this.recordJournalEntry(targetAddress, latest, null, {
+            decision: 'ignored',
+            reason: 'resume point, earlier history not copied',
+          });
         }
+        return;
+      }
 
+      const signatures = await fetchNewSignatures(this.connection, publicKey, {
+        until: lastSignature,
+      });
+
+      for (const sigInfo of signatures) {
         const tx = await this.connection.getTransaction(sigInfo.signature, {
           maxSupportedTransactionVersion: 0,
         });
 
-        if (tx && this.isPredictionMarketTransaction(tx)) {
-          console.log(`📊 Found prediction market transaction: ${sigInfo.signature}`);
-          await this.processTransaction(tx, targetAddress, sigInfo.signature);
+        if (!tx) {
+          log.info('Transaction not available yet, retrying next poll', { signature: sigInfo.signature });
+          break;
         }
 
-        this.lastProcessedSignatures.add(sigInfo.signature);
+        let handled: { trade: ParsedTrade | null; result: CopyResult }[];
+
+        // A transaction we cannot read is journaled and passed over, so it does not hold back the resume point.
+        try {
+          if (sigInfo.err) {
+            handled = [{ trade: null, result: { decision: 'ignored', reason: 'leader transaction failed' } }];
+          } else if (!this.isPredictionMarketTransaction(tx)) {
+            handled = [{ trade: null, result: { decision: 'ignored', reason: 'not a prediction market transaction' } }];
+          } else {
+            handled = await this.processTransaction(tx, targetAddress, sigInfo.signature);
+          }
+        } catch (error) {
+          log.error('Error reading leader transaction', { signature: sigInfo.signature, error });
+          handled = [{ trade: null, result: { decision: 'ignored', reason: `unreadable transaction: ${this.errorMessage(error)}` } }];
+        }
+
+        for (const { trade, result } of handled) {
+          await this.recordJournalEntry(targetAddress, sigInfo, trade, result);
+        }
       }
     } catch (error) {
-      console.error(`❌ Error monitoring address ${targetAddress}:`, error);
+      log.error('Error monitoring leader', { error });
+    }
+  }
+
+  private async recordJournalEntry(
+    leader: string,
+    sigInfo: ConfirmedSignatureInfo,
+    trade: ParsedTrade | null,
+    result: CopyResult
+  ): Promise<void> {
+    this.recordMetrics(leader, sigInfo, result);
+
+    const fields = {
+      leader,
+      signature: sigInfo.signature,
+      market: trade?.marketAddress.toBase58(),
+      decision: result.decision,
+      action: result.action,
+      reason: result.reason,
+      copySignature: result.signature,
+    };
+    if (result.decision === 'ignored') {
+      logger.debug('Copy decision', fields);
+    } else {
+      logger.info('Copy decision', fields);
+    }
+    this.notifyDecision(leader, sigInfo, trade, result);
+
+    await this.journal.record({
+      timestamp: new Date().toISOString(),
+      leader,
+      signature: sigInfo.signature,
+      slot: sigInfo.slot,
+      blockTime: sigInfo.blockTime,
+      trade: trade ? {
+        marketAddress: trade.marketAddress.toBase58(),
+        outcomeIndex: trade.outcomeIndex,
+        outcomeTitle: trade.outcomeTitle,
+        orderType: trade.orderType,
+        amount: trade.amount,
+        price: trade.price,
+      } : undefined,
+      decision: result.decision,
+      action: result.action,
+      reason: result.reason,
+      copyAmount: result.amount,
+      copySignature: result.signature,
+      fillAmount: result.fillAmount,
+      fillPrice: result.fillPrice,
+      confirmationStatus: result.confirmation?.status,
+      slotLatency: result.confirmation?.slotLatency,
+      confirmMs: result.confirmation?.confirmMs,
+      fade: result.fade,
+      paper: this.executor?.mode === 'paper' || undefined,
+    });
+  }
+
+  private notifyDecision(
+    leader: string,
+    sigInfo: ConfirmedSignatureInfo,
+    trade: ParsedTrade | null,
+    result: CopyResult
+  ): void {
+    const fields = {
+      leader,
+      market: trade?.marketAddress.toBase58(),
+      outcome: trade?.outcomeTitle ?? trade?.outcomeIndex,
+      side: trade?.orderType,
+      stake: result.amount,
+      leaderSignature: sigInfo.signature,
+      signature: result.signature,
+      fade: result.fade,
+      paper: this.executor?.mode === 'paper' || undefined,
+    };
+
+    if (result.decision === 'copied') {
+      this.notifier.notify('copied', `Copied ${result.action || 'entry'}`, `Mirrored a trade from ${leader}`, fields);
+    } else if (result.decision === 'failed') {
+      this.notifier.notify('order_failed', 'Copy order failed', result.reason || 'unknown error', fields);
+    }
+  }
+
+  private recordMetrics(leader: string, sigInfo: ConfirmedSignatureInfo, result: CopyResult): void {
+    botMetrics.transactionsObserved.inc({ leader });
+    botMetrics.decisions.inc({
+      decision: result.decision,
+      action: result.action || 'none',
+      reason: reasonLabel(result.decision, result.reason),
+    });
+
+    const confirmation = result.confirmation;
+    if (result.decision !== 'copied' || confirmation?.status !== 'confirmed') return;
+
+    if (sigInfo.blockTime) {
+      botMetrics.copyLatency.observe(Math.max(0, Date.now() / 1000 - sigInfo.blockTime), { action: result.action || 'entry' });
+    }
+    if (confirmation.slotLatency !== undefined) {
+      botMetrics.copySlotLatency.observe(confirmation.slotLatency, { action: result.action || 'entry' });
     }
   }
 
@@ -122,70 +508,136 @@ export class CopyTradingBot {
       return true;
     }
 
-    const programIds = tx.transaction.message.accountKeys
-      .map((key: any) => key.pubkey?.toString() || key.toString())
-      .filter((id: string) => this.config.predictionMarketPrograms.includes(id));
-
-    return programIds.length > 0;
+    return this.monacoParser.getAccountKeys(tx)
+      .some(key => this.config.predictionMarketPrograms.includes(key.toBase58()));
   }
 
-  private async processTransaction(tx: any, sourceAddress: string, txSignature?: string): Promise<void> {
-    try {
-      console.log(`🔄 Processing transaction from ${sourceAddress}...`);
-      
-      const trade = await this.parsePredictionMarketTransaction(tx, txSignature);
-      
-      if (!trade) {
-        console.log('   Could not parse trade from transaction');
-        return;
+  // A leader can cancel and place several orders in one transaction, so each of their Monaco
+  // instructions is handled in turn and gets its own result.
+  private async processTransaction(
+    tx: any,
+    sourceAddress: string,
+    txSignature?: string
+  ): Promise<{ trade: ParsedTrade | null; result: CopyResult }[]> {
+    const log = logger.child({ leader: sourceAddress, signature: txSignature });
+    const handled: { trade: ParsedTrade | null; result: CopyResult }[] = [];
+
+    log.debug('Processing prediction market transaction');
+
+    for (const ix of this.monacoParser.decodeInstructions(tx)) {
+      if (ix.kind === 'settlement') continue;
+      if (ix.purchaserPk && ix.purchaserPk.toBase58() !== sourceAddress) continue;
+
+      if (ix.kind === 'cancelOrder') {
+        handled.push(await this.handleInstruction(null, log, () => this.mirrorLeaderCancel(ix, sourceAddress, log)));
+        continue;
       }
 
-      console.log(`   Trade: ${trade.action} ${trade.outcome} on market ${trade.marketAddress.toBase58()}`);
-      console.log(`   Amount: ${trade.amount} ${trade.action === 'BUY' ? 'SOL' : 'shares'}`);
-      if (trade.price) {
-        console.log(`   Price: ${trade.price}`);
+      const monacoTrade = await this.monacoParser.toTrade(ix);
+      if (!monacoTrade) {
+        handled.push({ trade: null, result: { decision: 'ignored', reason: 'unknown market mint decimals' } });
+        continue;
       }
 
-      await this.executeCopyTrade(trade);
-      
+      const trade = this.toParsedTrade(tx, monacoTrade);
+      handled.push(await this.handleInstruction(trade, log, () => this.copyLeaderTrade(trade, sourceAddress, log)));
+    }
+
+    if (handled.length > 0) {
+      return handled;
+    }
+
+    const trade = this.parsePredictionMarketTransaction(tx);
+
+    if (!trade) {
+      log.info('Could not parse trade from transaction');
+      return [{ trade: null, result: { decision: 'ignored', reason: 'no trade in transaction' } }];
+    }
+
+    return [await this.handleInstruction(trade, log, () => this.copyLeaderTrade(trade, sourceAddress, log))];
+  }
+
+  private async handleInstruction(
+    trade: ParsedTrade | null,
+    log: Logger,
+    handle: () => Promise<CopyResult>
+  ): Promise<{ trade: ParsedTrade | null; result: CopyResult }> {
+    try {
+      return { trade, result: await handle() };
     } catch (error) {
-      console.error('❌ Error processing transaction:', error);
+      log.error('Error processing transaction', { error });
+      return { trade, result: { decision: 'failed', reason: this.errorMessage(error) } };
     }
   }
 
-  private async parsePredictionMarketTransaction(tx: any, txSignature?: string): Promise<ParsedTrade | null> {
-    if (!tx || !tx.transaction || !tx.transaction.message) {
-      return null;
+  private async mirrorLeaderCancel(cancel: DecodedCancelOrder, sourceAddress: string, log: Logger): Promise<CopyResult> {
+    log.info('Leader cancelled order', { order: cancel.orderPk.toBase58() });
+    if (!this.orderMirror) {
+      return { decision: 'ignored', action: 'cancel', reason: 'Monaco not configured' };
     }
+    return await this.orderMirror.mirrorCancel(sourceAddress, cancel.orderPk);
+  }
 
-    if (this.monacoParser.isMonacoTransaction(tx) && txSignature) {
-      const monacoTrade = await this.monacoParser.parseTransaction(txSignature);
-      if (monacoTrade) {
-        const outcome: 'YES' | 'NO' = monacoTrade.forOutcome ? 'YES' : 'NO';
-        const action: 'BUY' | 'SELL' = monacoTrade.orderType === 'back' ? 'BUY' : 'SELL';
-        
-        return {
-          marketAddress: monacoTrade.marketPk,
-          outcome,
-          action,
-          amount: monacoTrade.stake,
-          price: monacoTrade.expectedPrice,
-        };
-      }
+  private async copyLeaderTrade(trade: ParsedTrade, sourceAddress: string, log: Logger): Promise<CopyResult> {
+    log.info('Leader trade', {
+      market: trade.marketAddress.toBase58(),
+      side: trade.orderType,
+      outcome: trade.outcomeIndex,
+      stake: trade.amount,
+      price: trade.price,
+    });
+
+    // A faded leader is mirrored on the opposite side, including their exits.
+    const fade = this.leaderProfiles.get(sourceAddress).fade === true;
+    const copyTrade = fade ? fadeTrade(trade) : trade;
+    if (fade) {
+      log.info('Fading leader trade', { side: copyTrade.orderType });
+    }
+
+    // Paused or killed copying holds exits as well, so nothing is sent until an operator resumes.
+    if (this.isPaused(sourceAddress)) {
+      return { decision: 'skipped', reason: 'paused' };
+    }
+
+    const exitLinks = this.orderMirror?.findExitLinks(sourceAddress, copyTrade) || [];
+    if (this.orderMirror && exitLinks.length > 0) {
+      const result = await this.orderMirror.mirrorExit(sourceAddress, copyTrade, exitLinks);
+      return { ...result, fade: fade || undefined };
+    }
+
+    const result = this.config.consensus.enabled
+      ? await this.copyOnConsensus(copyTrade, sourceAddress, log)
+      : await this.executeCopyTrade(copyTrade, sourceAddress, log);
+    trade.outcomeTitle = copyTrade.outcomeTitle;
+
+    return { ...result, fade: fade || undefined };
+  }
+
+  private toParsedTrade(tx: any, monacoTrade: ParsedMonacoTrade): ParsedTrade {
+    return {
+      marketAddress: monacoTrade.marketPk,
+      outcomeIndex: monacoTrade.outcomeIndex,
+      orderType: monacoTrade.orderType,
+      amount: monacoTrade.stake,
+      price: monacoTrade.expectedPrice,
+      orderPk: monacoTrade.orderPk,
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? undefined,
+    };
+  }
+
+  private parsePredictionMarketTransaction(tx: any): ParsedTrade | null {
+    if (!tx || !tx.transaction || !tx.transaction.message) {
+      return null;
     }
 
-    const instructions = tx.transaction.message.instructions;
-    const accountKeys = tx.transaction.message.accountKeys;
+    const instructions = tx.transaction.message.instructions || [];
+    const accountKeys = this.monacoParser.getAccountKeys(tx);
 
     for (const programId of this.config.predictionMarketPrograms) {
       if (programId === MONACO_PROGRAM_ID.toBase58()) continue;
       
-      const programInvolved = accountKeys.some(
-        (key: any) => {
-          const keyStr = key.pubkey?.toString() || key.toString();
-          return keyStr === programId;
-        }
-      );
+      const programInvolved = accountKeys.some(key => key.toBase58() === programId);
 
       if (!programInvolved) continue;
 
@@ -197,18 +649,18 @@ export class CopyTradingBot {
         if (ixProgramId === programId) {
           try {
             const marketIndex = ix.accounts?.[0] || 0;
-            const marketAddress = accountKeys[marketIndex]?.pubkey || accountKeys[marketIndex];
+            const marketAddress = accountKeys[marketIndex];
             
             if (!marketAddress) continue;
 
             return {
               marketAddress: new PublicKey(marketAddress),
-              outcome: 'YES',
-              action: 'BUY',
+              outcomeIndex: 0,
+              orderType: 'back',
               amount: 0.1,
             };
           } catch (error) {
-            console.error('Error parsing instruction:', error);
+            logger.error('Error parsing instruction', { programId, error });
             continue;
           }
         }
@@ -218,79 +670,385 @@ export class CopyTradingBot {
     return null;
   }
 
-  private async executeCopyTrade(trade: ParsedTrade): Promise<void> {
+  private async copyOnConsensus(trade: ParsedTrade, leader: string, log: Logger): Promise<CopyResult> {
+    const profile = this.leaderProfiles.get(leader);
+    const weight = profile.consensusWeight ?? 1;
+
+    if (!profile.enabled) {
+      return { decision: 'skipped', reason: 'leader disabled' };
+    }
+    if (weight <= 0) {
+      return { decision: 'skipped', reason: 'leader has no consensus weight' };
+    }
+
+    const consensus = this.consensus.record(trade, leader, weight, this.config.consensus);
+    if (!consensus.fire) {
+      return { decision: 'skipped', reason: consensus.reason };
+    }
+
+    log.info('Consensus reached', {
+      market: trade.marketAddress.toBase58(),
+      outcome: trade.outcomeIndex,
+      side: trade.orderType,
+      score: consensus.score,
+      leaders: consensus.leaders,
+      scale: consensus.scale,
+    });
+
+    // Only the leader whose entry fired the signal is linked to our order, so only that leader's
+    // cancels and exits are mirrored; the other voters' later exits are not followed.
+    const consensusTrade = { ...trade, amount: consensus.stake };
+    const result = await this.executeCopyTrade(consensusTrade, leader, log, consensus.scale);
+    trade.outcomeTitle = consensusTrade.outcomeTitle;
+
+    if (result.decision !== 'copied') {
+      this.consensus.release(consensus.key, consensus.scale);
+    }
+    return result;
+  }
+
+  private async executeCopyTrade(
+    trade: ParsedTrade,
+    leader: string,
+    parentLog: Logger = logger,
+    stakeScale: number = 1
+  ): Promise<CopyResult> {
+    const log = parentLog.child({ leader, market: trade.marketAddress.toBase58() });
+
     try {
-      if (!this.monacoPositionManager) {
-        console.error('   Monaco position manager not initialized');
-        return;
+      if (!this.executor) {
+        log.error('Trade executor not initialized');
+        return { decision: 'failed', reason: 'trade executor not initialized' };
       }
 
-      const adjustedAmount = trade.amount * this.config.copyMultiplier;
+      const limitPrice = applySlippage(trade.price, trade.orderType, this.config.slippage);
 
-      if (adjustedAmount > this.config.maxPositionSize) {
-        console.log(`   ⚠️  Trade size ${adjustedAmount} exceeds max ${this.config.maxPositionSize}, skipping`);
-        return;
+      if (!trade.price || !limitPrice) {
+        return { decision: 'skipped', reason: 'no valid price' };
       }
 
-      console.log(`   📝 Executing copy trade: ${trade.action} ${adjustedAmount} ${trade.outcome} shares`);
-      
-      let signature: string;
-      const maxPrice = trade.price ? trade.price * 1.01 : undefined;
-      const minPrice = trade.price ? trade.price * 0.99 : undefined;
-
-      if (trade.action === 'BUY') {
-        if (trade.outcome === 'YES') {
-          signature = await this.monacoPositionManager.buyYesShares(
-            trade.marketAddress, 
-            adjustedAmount,
-            maxPrice
-          );
-        } else {
-          signature = await this.monacoPositionManager.buyNoShares(
-            trade.marketAddress, 
-            adjustedAmount,
-            maxPrice
-          );
-        }
+      const profile = this.leaderProfiles.get(leader);
+      const monaco = this.executor.getMonacoClient();
+      const market = profile.enabled ? await monaco.getMarket(trade.marketAddress) : null;
+
+      let eventCategory: string | null = null;
+      if (market && this.leaderProfiles.needsEventCategory(leader)) {
+        eventCategory = await monaco.getEventCategory(market.eventAccount);
+      }
+
+      const strategy = resolveSizingStrategy(profile, this.config);
+      const needsBalances = !profile.fade && (strategy === 'proportional' || strategy === 'kelly');
+
+      if (profile.enabled && needsBalances && !market) {
+        return { decision: 'skipped', reason: 'market unavailable for balance lookup' };
+      }
+
+      const today = dayKey(new Date(), this.config.pnlTimezone);
+      const sizing = sizeCopyTrade({
+        profile,
+        marketAddress: trade.marketAddress.toBase58(),
+        eventCategory,
+        leaderStake: trade.amount,
+        orderType: trade.orderType,
+        price: trade.price,
+        limitPrice,
+        leaderBalance: strategy === 'proportional' && market
+          ? await this.tokenBalances.getBalance(new PublicKey(leader), market.mintAccount)
+          : null,
+        followerBalance: needsBalances && market
+          ? await this.tokenBalances.getBalance(this.wallet.publicKey, market.mintAccount)
+          : null,
+        impliedProbability: strategy === 'kelly' && !profile.fade
+          ? (await this.executor.getPriceService().getOutcomePrices(trade.marketAddress, trade.outcomeIndex))?.impliedProbability
+          : null,
+        spentToday: profile.dailyBudget !== undefined
+          ? this.journal.getCopiedAmount(
+            leader,
+            entry => dayKey(new Date(entry.timestamp), this.config.pnlTimezone) === today
+          )
+          : 0,
+        stakeScale,
+      }, this.config);
+
+      if (!sizing.copy) {
+        return { decision: 'skipped', reason: sizing.reason };
+      }
+
+      let adjustedAmount = sizing.amount;
+
+      const outcomes = await this.executor.getMarketOutcomes(trade.marketAddress);
+      const outcome = outcomes.find(o => o.index === trade.outcomeIndex);
+
+      if (outcomes.length > 0 && !outcome) {
+        return { decision: 'skipped', reason: `outcome #${trade.outcomeIndex} not found on market` };
+      }
+
+      trade.outcomeTitle = outcome ? outcome.title : `Outcome ${trade.outcomeIndex}`;
+
+      const outcomePrices = await this.executor
+        .getPriceService()
+        .getOutcomePrices(trade.marketAddress, trade.outcomeIndex);
+
+      if (outcomePrices) {
+        log.debug('Ladder', {
+          bestBack: outcomePrices.bestBackPrice,
+          backLiquidity: outcomePrices.backLiquidity,
+          bestLay: outcomePrices.bestLayPrice,
+          layLiquidity: outcomePrices.layLiquidity,
+        });
+      }
+
+      const risk = this.riskEngine.evaluate({
+        leader,
+        trade,
+        stake: adjustedAmount,
+        limitPrice,
+        market,
+        outcomePrices,
+        exposure: await computeExposure(this.executor, this.wallet.publicKey, this.settlements),
+        lastCopyAt: this.journal.getLastCopyTime(leader),
+        now: Date.now(),
+      });
+
+      if (risk.action === 'reject') {
+        return { decision: 'skipped', reason: risk.reasons.join('; ') };
+      }
+
+      if (risk.action === 'resize') {
+        log.info('Risk resized copy', { from: adjustedAmount, to: risk.amount, reason: risk.reasons.join('; ') });
+        adjustedAmount = risk.amount;
+      }
+
+      log.info('Executing copy trade', {
+        side: trade.orderType,
+        stake: adjustedAmount,
+        outcome: trade.outcomeIndex,
+        outcomeTitle: trade.outcomeTitle,
+        price: limitPrice,
+        leaderPrice: trade.price,
+      });
+
+      let placed: PlacedOrder;
+
+      if (trade.orderType === 'back') {
+        placed = await this.executor.placeBackOrder(
+          trade.marketAddress,
+          trade.outcomeIndex,
+          adjustedAmount,
+          limitPrice,
+          { leaderSlot: trade.slot }
+        );
       } else {
-        if (trade.outcome === 'YES') {
-          signature = await this.monacoPositionManager.sellYesShares(
-            trade.marketAddress, 
-            adjustedAmount,
-            minPrice
-          );
-        } else {
-          signature = await this.monacoPositionManager.sellNoShares(
-            trade.marketAddress, 
-            adjustedAmount,
-            minPrice
-          );
-        }
+        placed = await this.executor.placeLayOrder(
+          trade.marketAddress,
+          trade.outcomeIndex,
+          adjustedAmount,
+          limitPrice,
+          { leaderSlot: trade.slot }
+        );
       }
 
-      console.log(`   ✅ Trade executed: ${signature}`);
+      await this.orderMirror?.recordCopy(leader, trade, placed, adjustedAmount);
+
+      return {
+        decision: 'copied',
+        action: 'entry',
+        amount: adjustedAmount,
+        signature: placed.signature,
+        fillAmount: placed.matchedStake,
+        fillPrice: placed.averagePrice,
+        confirmation: placed.confirmation,
+      };
       
     } catch (error) {
-      console.error('   ❌ Error executing copy trade:', error);
+      log.error('Error executing copy trade', { error });
+      return { decision: 'failed', reason: this.errorMessage(error) };
+    }
+  }
+
+  private async manageOpenOrders(): Promise<void> {
+    if (!this.executor) return;
+
+    try {
+      const replacements = await this.executor.manageOpenOrders();
+
+      for (const replacement of replacements) {
+        const previous = this.executor.getOrder(replacement.previousOrderPk);
+        await this.orderLinks.replaceOurOrder(replacement.previousOrderPk, replacement.order, previous?.matchedStake);
+      }
+    } catch (error) {
+      logger.error('Error managing open orders', { error });
     }
   }
 
-  private resetDailyLossIfNeeded(): void {
-    const today = new Date().toDateString();
-    if (today !== this.lastResetDate) {
-      this.dailyLoss = 0;
-      this.lastResetDate = today;
-      console.log('📅 Daily loss counter reset');
+  private async trackSettlements(): Promise<void> {
+    try {
+      await this.settlements?.runIfDue();
+    } catch (error) {
+      logger.error('Error tracking settlements', { error });
     }
   }
 
+  getStatus(): BotStatus {
+    return {
+      running: this.isRunning,
+      mode: this.executor ? this.executor.mode : 'disabled',
+      wallet: this.wallet.publicKey.toBase58(),
+      paused: this.paused,
+      pausedLeaders: [...this.pausedLeaders],
+      tradingHalted: this.tradingHalted,
+      ingestionMode: this.config.ingestionMode,
+      targets: [...this.config.targetAddresses],
+    };
+  }
+
+  async getPositions(): Promise<MarketExposure[]> {
+    return this.executor ? await this.executor.getAllPositions(this.wallet.publicKey) : [];
+  }
+
+  getOpenOrders(): TrackedOrder[] {
+    return this.executor ? this.executor.getOpenOrders() : [];
+  }
+
+  getDailyPnl(): PnlSnapshot | null {
+    return this.pnlTracker ? this.pnlTracker.getSnapshot() : null;
+  }
+
+  getConsensusSignals(): ConsensusSignal[] {
+    return this.consensus.getSignals();
+  }
+
+  getSettlements(): TrackedSettlement[] {
+    return this.settlements ? this.settlements.getSettlements() : [];
+  }
+
+  getRecentDecisions(limit: number, leader?: string): JournalEntry[] {
+    return this.journal.getRecent(limit, leader);
+  }
+
+  isPaused(leader?: string): boolean {
+    return this.paused || (leader !== undefined && this.pausedLeaders.has(leader));
+  }
+
+  async pause(leader?: string): Promise<void> {
+    if (leader) {
+      this.pausedLeaders.add(leader);
+    } else {
+      this.paused = true;
+    }
+    await this.savePauseState();
+    logger.info('Copying paused', { leader });
+  }
+
+  async resume(leader?: string): Promise<void> {
+    if (leader) {
+      this.pausedLeaders.delete(leader);
+    } else {
+      this.paused = false;
+    }
+    await this.savePauseState();
+    logger.info('Copying resumed', { leader });
+  }
+
+  private async savePauseState(): Promise<void> {
+    await this.pauseState.save({ paused: this.paused, pausedLeaders: [...this.pausedLeaders] });
+  }
+
+  addTarget(address: string): boolean {
+    const leader = new PublicKey(address).toBase58();
+    if (this.config.targetAddresses.includes(leader)) return false;
+
+    this.config.targetAddresses = [...this.config.targetAddresses, leader];
+    this.apiTargets.add(leader);
+    this.subscribeToLeaders([leader]);
+    logger.info('Added target', { leader });
+    return true;
+  }
+
+  async removeTarget(address: string): Promise<boolean> {
+    const leader = new PublicKey(address).toBase58();
+    if (!this.config.targetAddresses.includes(leader)) return false;
+
+    this.config.targetAddresses = this.config.targetAddresses.filter(a => a !== leader);
+    this.apiTargets.delete(leader);
+    if (this.pausedLeaders.delete(leader)) {
+      await this.savePauseState();
+    }
+    await this.logsSubscription?.unsubscribe(leader);
+    logger.info('Removed target', { leader });
+    return true;
+  }
+
+  async killSwitch(): Promise<KillSwitchResult> {
+    this.paused = true;
+    await this.savePauseState();
+    logger.warn('Kill switch triggered, pausing and cancelling all open orders');
+
+    const result: KillSwitchResult = { cancelled: [], failed: [] };
+    if (!this.executor) return result;
+
+    for (const order of this.executor.getOpenOrders()) {
+      try {
+        await this.executor.cancelOrder(new PublicKey(order.orderPk));
+        result.cancelled.push(order.orderPk);
+      } catch (error) {
+        result.failed.push({ orderPk: order.orderPk, error: this.errorMessage(error) });
+      }
+    }
+
+    logger.warn('Kill switch finished', { cancelled: result.cancelled.length, failed: result.failed.length });
+    return result;
+  }
+
+  private async refreshDailyLoss(): Promise<number> {
+    if (!this.pnlTracker) return 0;
+
+    try {
+      await this.pnlTracker.refresh();
+    } catch (error) {
+      logger.error('Error refreshing PnL', { error });
+    }
+
+    return this.pnlTracker.getDailyLoss();
+  }
+
+  private async updateGauges(): Promise<void> {
+    botMetrics.tradingHalted.set(this.tradingHalted ? 1 : 0);
+
+    if (this.pnlTracker) {
+      const snapshot = this.pnlTracker.getSnapshot();
+      botMetrics.dailyPnl.set(snapshot.dailyPnl, { component: 'total' });
+      botMetrics.dailyPnl.set(snapshot.realizedToday, { component: 'realized' });
+      botMetrics.dailyPnl.set(snapshot.unrealized, { component: 'unrealized' });
+    }
+
+    if (!this.executor) return;
+
+    try {
+      const exposure = await computeExposure(this.executor, this.wallet.publicKey, this.settlements);
+      const total = [...exposure.byMarket.values()].reduce((sum, value) => sum + value, 0);
+      botMetrics.openExposure.set(total);
+      botMetrics.openMarkets.set(exposure.openMarkets.size);
+    } catch (error) {
+      logger.error('Error computing exposure for metrics', { error });
+    }
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   stop(): void {
     this.isRunning = false;
-    console.log('🛑 Bot stopped');
+    this.configWatcher?.stop();
+    this.logsSubscription?.unsubscribeAll().catch(error => {
+      logger.error('Error closing log subscriptions', { error });
+    });
+    logger.info('Bot stopped');
   }
 }
 
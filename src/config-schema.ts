@@ -0,0 +1,281 @@
+import { PublicKey } from '@solana/web3.js';
+import type { BotConfig } from './config';
+import { LeaderProfile } from './leaders/leader-profiles';
+import { SIZING_STRATEGIES } from './sizing/position-sizer';
+import { FADE_SIZING_MODES } from './sizing/fade-sizing';
+import { SLIPPAGE_MODES } from './prediction-markets/monaco-price-ladder';
+import { LOG_FORMATS, LOG_LEVELS } from './observability/logger';
+import { isNotificationEvent, NOTIFICATION_EVENTS, NotificationSettings } from './notifications/notifier';
+
+export class ConfigValidationError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'ConfigValidationError';
+    this.problems = problems;
+  }
+}
+
+const ENUM_ENV_VARS: Record<string, string[]> = {
+  SLIPPAGE_MODE: SLIPPAGE_MODES,
+  UNMATCHED_ACTION: ['cancel', 'reprice'],
+  PRIORITY_FEE_MODE: ['fixed', 'auto'],
+  INGESTION_MODE: ['poll', 'websocket'],
+  SIZING_STRATEGY: SIZING_STRATEGIES,
+  FADE_SIZING: FADE_SIZING_MODES,
+  PAPER_TRADING: ['true', 'false'],
+  ALLOW_INPLAY: ['true', 'false'],
+  SIMULATE_TRANSACTIONS: ['true', 'false'],
+  LOG_LEVEL: LOG_LEVELS,
+  LOG_FORMAT: LOG_FORMATS,
+  SMTP_SECURE: ['true', 'false'],
+  CLAIM_WINNINGS: ['true', 'false'],
+  CONSENSUS_MODE: ['true', 'false'],
+};
+
+function isPublicKey(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+class ProblemCollector {
+  readonly problems: string[] = [];
+
+  add(problem: string): void {
+    this.problems.push(problem);
+  }
+
+  positive(name: string, value: number | undefined, optional = false): void {
+    if (optional && value === undefined) return;
+    if (value === undefined || !Number.isFinite(value) || value <= 0) {
+      this.add(`${name} must be a positive number (got ${value})`);
+    }
+  }
+
+  range(name: string, value: number | undefined, min: number, max: number, integer = false): void {
+    if (value === undefined || !Number.isFinite(value) || value < min || value > max
+      || (integer && !Number.isInteger(value))) {
+      this.add(`${name} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max} (got ${value})`);
+    }
+  }
+
+  publicKey(name: string, value: string): void {
+    if (!isPublicKey(value)) {
+      this.add(`${name} is not a valid public key: "${value}"`);
+    }
+  }
+
+  url(name: string, value: string | undefined, protocols: string[]): void {
+    if (!value) return;
+
+    try {
+      const url = new URL(value);
+      if (!protocols.includes(url.protocol)) {
+        this.add(`${name} must use ${protocols.join(' or ')} (got "${value}")`);
+      }
+    } catch {
+      this.add(`${name} is not a valid URL: "${value}"`);
+    }
+  }
+}
+
+function validateLeaderProfile(problems: ProblemCollector, profile: LeaderProfile, index: number, defaultKellyEdge: number): void {
+  const name = `leader profile #${index}${profile.label ? ` (${profile.label})` : ''}`;
+
+  problems.publicKey(`${name} address`, profile.address);
+
+  if (profile.sizingStrategy !== undefined && !SIZING_STRATEGIES.includes(profile.sizingStrategy)) {
+    problems.add(`${name} sizingStrategy must be one of ${SIZING_STRATEGIES.join(', ')} (got "${profile.sizingStrategy}")`);
+  }
+
+  problems.positive(`${name} copyMultiplier`, profile.copyMultiplier, true);
+  problems.positive(`${name} fixedStake`, profile.fixedStake, true);
+  if (profile.kellyEdge !== undefined) {
+    problems.range(`${name} kellyEdge`, profile.kellyEdge, 0, 1);
+  }
+  if (profile.sizingStrategy === 'kelly' && !profile.fade && (profile.kellyEdge ?? defaultKellyEdge) <= 0) {
+    problems.add(`${name} uses Kelly sizing without a leader edge; set its kellyEdge or KELLY_EDGE`);
+  }
+  problems.positive(`${name} maxStake`, profile.maxStake, true);
+  problems.positive(`${name} dailyBudget`, profile.dailyBudget, true);
+  problems.positive(`${name} fadeMultiplier`, profile.fadeMultiplier, true);
+  problems.positive(`${name} maxFadeLiability`, profile.maxFadeLiability, true);
+  if (profile.consensusWeight !== undefined) {
+    problems.range(`${name} consensusWeight`, profile.consensusWeight, 0, 100);
+  }
+
+  for (const market of [...(profile.allowedMarkets || []), ...(profile.blockedMarkets || [])]) {
+    problems.publicKey(`${name} market filter`, market);
+  }
+}
+
+function validateNotifications(problems: ProblemCollector, settings: NotificationSettings): void {
+  const eventLists: [string, string[] | undefined][] = [
+    ['NOTIFY_EVENTS', settings.events],
+    ['NOTIFY_WEBHOOK_EVENTS', settings.webhook?.events],
+    ['TELEGRAM_EVENTS', settings.telegram?.events],
+    ['DISCORD_EVENTS', settings.discord?.events],
+    ['SMTP_EVENTS', settings.email?.events],
+  ];
+
+  for (const [name, events] of eventLists) {
+    for (const event of events || []) {
+      if (!isNotificationEvent(event)) {
+        problems.add(`${name} entries must be one of ${NOTIFICATION_EVENTS.join(', ')} (got "${event}")`);
+      }
+    }
+  }
+
+  problems.range('NOTIFY_RATE_LIMIT', settings.rateLimit.max, 1, 10_000, true);
+  problems.range('NOTIFY_RATE_WINDOW_MS', settings.rateLimit.windowMs, 1_000, 86_400_000, true);
+
+  problems.url('NOTIFY_WEBHOOK_URL', settings.webhook?.url, ['http:', 'https:']);
+  problems.url('DISCORD_WEBHOOK_URL', settings.discord?.webhookUrl, ['http:', 'https:']);
+
+  if (settings.telegram) {
+    if (!settings.telegram.botToken || !settings.telegram.chatId) {
+      problems.add('TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID must both be set');
+    }
+    problems.url('TELEGRAM_API_URL', settings.telegram.apiUrl, ['http:', 'https:']);
+  }
+
+  if (settings.email) {
+    problems.range('SMTP_PORT', settings.email.smtp.port, 1, 65_535, true);
+    if (!settings.email.from) {
+      problems.add('SMTP_FROM is required when SMTP_HOST is set');
+    }
+    if (settings.email.to.length === 0) {
+      problems.add('SMTP_TO is required when SMTP_HOST is set');
+    }
+  }
+}
+
+export function validateConfig(config: BotConfig, env: NodeJS.ProcessEnv = process.env): string[] {
+  const problems = new ProblemCollector();
+
+  for (const [name, allowed] of Object.entries(ENUM_ENV_VARS)) {
+    const value = env[name];
+    if (value && !allowed.includes(value)) {
+      problems.add(`${name} must be one of ${allowed.join(', ')} (got "${value}")`);
+    }
+  }
+
+  problems.url('SOLANA_RPC_URL', config.rpcUrl, ['http:', 'https:']);
+  problems.url('SOLANA_WS_URL', config.wsUrl, ['ws:', 'wss:']);
+
+  if (config.wallet.remoteSignerPublicKey) {
+    problems.publicKey('REMOTE_SIGNER_PUBKEY', config.wallet.remoteSignerPublicKey);
+  }
+
+  for (const address of config.targetAddresses) {
+    problems.publicKey('TARGET_ADDRESSES entry', address);
+  }
+
+  for (const program of config.predictionMarketPrograms) {
+    problems.publicKey('PREDICTION_MARKET_PROGRAMS entry', program);
+  }
+
+  config.leaderProfiles.forEach((profile, index) => validateLeaderProfile(problems, profile, index, config.kellyEdge));
+
+  problems.positive('MAX_POSITION_SIZE', config.maxPositionSize);
+  problems.positive('MAX_DAILY_LOSS', config.maxDailyLoss);
+  problems.positive('COPY_MULTIPLIER', config.copyMultiplier);
+  problems.positive('FIXED_STAKE', config.fixedStake);
+  problems.range('KELLY_EDGE', config.kellyEdge, 0, 1);
+  problems.range('KELLY_FRACTION', config.kellyFraction, 0.01, 1);
+  problems.range('KELLY_MAX_FRACTION', config.kellyMaxFraction, 0.001, 1);
+
+  problems.positive('FADE_MULTIPLIER', config.fade.multiplier);
+  problems.positive('FADE_MAX_LIABILITY', config.fade.maxLiability);
+  if (!FADE_SIZING_MODES.includes(config.fade.sizing)) {
+    problems.add(`fade sizing must be one of ${FADE_SIZING_MODES.join(', ')} (got "${config.fade.sizing}")`);
+  }
+
+  if (!SIZING_STRATEGIES.includes(config.sizingStrategy)) {
+    problems.add(`sizingStrategy must be one of ${SIZING_STRATEGIES.join(', ')} (got "${config.sizingStrategy}")`);
+  }
+  if (config.sizingStrategy === 'kelly' && config.kellyEdge <= 0) {
+    problems.add('KELLY_EDGE must be above 0 with the kelly sizing strategy');
+  }
+
+  if (!SLIPPAGE_MODES.includes(config.slippage.mode)) {
+    problems.add(`slippage mode must be one of ${SLIPPAGE_MODES.join(', ')} (got "${config.slippage.mode}")`);
+  }
+
+  if (config.slippage.mode === 'ticks') {
+    problems.range('SLIPPAGE', config.slippage.value, 0, 50, true);
+  } else {
+    problems.range('SLIPPAGE', config.slippage.value, 0, 50);
+  }
+
+  problems.range('CONSENSUS_WINDOW_MS', config.consensus.windowMs, 1_000, 86_400_000, true);
+  problems.positive('CONSENSUS_THRESHOLD', config.consensus.threshold);
+  problems.range('CONSENSUS_MAX_SCALE', config.consensus.maxScale, 1, 10);
+
+  problems.positive('ORDER_TIMEOUT_MS', config.orderLifecycle.timeoutMs);
+  problems.range('CANCEL_BEFORE_LOCK_SECONDS', config.orderLifecycle.cancelBeforeLockSeconds, 0, 86_400, true);
+  problems.range('REPRICE_SLIPPAGE', config.orderLifecycle.repriceSlippage.value, 0, 100);
+  problems.range('MAX_REPRICES', config.orderLifecycle.maxReprices, 0, 20, true);
+
+  problems.range('PRIORITY_FEE_MICROLAMPORTS', config.execution.priorityFeeMicroLamports, 0, 100_000_000, true);
+  problems.range('PRIORITY_FEE_PERCENTILE', config.execution.priorityFeePercentile, 0, 100);
+  problems.range('MAX_PRIORITY_FEE_MICROLAMPORTS', config.execution.maxPriorityFeeMicroLamports, 0, 100_000_000, true);
+  problems.range('COMPUTE_UNIT_LIMIT', config.execution.computeUnitLimit, 1_000, 1_400_000, true);
+  problems.range('MAX_SEND_ATTEMPTS', config.execution.maxSendAttempts, 1, 10, true);
+
+  const limits = config.riskLimits;
+  problems.positive('MAX_MARKET_EXPOSURE', limits.maxMarketExposure, true);
+  problems.positive('MAX_EVENT_EXPOSURE', limits.maxEventExposure, true);
+  problems.positive('MAX_OPEN_MARKETS', limits.maxOpenMarkets, true);
+  problems.positive('MIN_LIQUIDITY', limits.minLiquidity, true);
+  problems.positive('LEADER_COOLDOWN_MS', limits.leaderCooldownMs, true);
+  if (limits.minSecondsBeforeLock !== undefined) {
+    problems.range('MIN_SECONDS_BEFORE_LOCK', limits.minSecondsBeforeLock, 0, 604_800);
+  }
+  if (limits.maxPrice !== undefined) {
+    problems.range('MAX_PRICE', limits.maxPrice, 1.01, 1000);
+  }
+
+  problems.range('SETTLEMENT_INTERVAL_MS', config.settlement.intervalMs, 10_000, 86_400_000, true);
+  problems.range('SETTLEMENT_STUCK_HOURS', config.settlement.stuckAfterHours, 1, 24 * 90);
+  problems.range('MAX_CLAIM_ATTEMPTS', config.settlement.maxClaimAttempts, 1, 100, true);
+
+  problems.range('POLL_INTERVAL', config.pollInterval, 250, 3_600_000, true);
+  problems.range('GAP_FILL_INTERVAL', config.gapFillInterval, 1_000, 3_600_000, true);
+
+  if (config.controlApi.port !== undefined) {
+    problems.range('CONTROL_API_PORT', config.controlApi.port, 1, 65_535, true);
+    if (!config.controlApi.token || config.controlApi.token.length < 16) {
+      problems.add('CONTROL_API_TOKEN of at least 16 characters is required when CONTROL_API_PORT is set');
+    }
+  }
+
+  if (config.metrics.port !== undefined) {
+    problems.range('METRICS_PORT', config.metrics.port, 1, 65_535, true);
+    if (config.metrics.port === config.controlApi.port) {
+      problems.add('METRICS_PORT must differ from CONTROL_API_PORT');
+    }
+  }
+
+  validateNotifications(problems, config.notifications);
+
+  if (!isTimeZone(config.pnlTimezone)) {
+    problems.add(`PNL_TIMEZONE is not a known time zone: "${config.pnlTimezone}"`);
+  }
+
+  return problems.problems;
+}
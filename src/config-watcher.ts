@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import { BotConfig, Config } from './config';
+import { ConfigValidationError } from './config-schema';
+import { logger } from './observability/logger';
+
+export type ConfigChangeHandler = (config: BotConfig) => void;
+
+// The config file when one is set, and the leader profiles file whenever it was loaded, with or without it.
+export function watchedConfigPaths(config: Pick<BotConfig, 'configPath' | 'leaderProfilesPath'>): string[] {
+  const paths: string[] = [];
+
+  if (config.configPath) paths.push(config.configPath);
+  if (fs.existsSync(config.leaderProfilesPath)) paths.push(config.leaderProfilesPath);
+
+  return paths;
+}
+
+export class ConfigWatcher {
+  private paths: string[];
+  private onChange: ConfigChangeHandler;
+  private debounceMs: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(paths: string[], onChange: ConfigChangeHandler, debounceMs: number = 500) {
+    this.paths = [...new Set(paths)];
+    this.onChange = onChange;
+    this.debounceMs = debounceMs;
+  }
+
+  start(): void {
+    for (const filePath of this.paths) {
+      fs.watchFile(filePath, { interval: 1000 }, (current, previous) => {
+        if (current.mtimeMs === previous.mtimeMs) return;
+        this.scheduleReload(filePath);
+      });
+      logger.info('Watching for config changes', { path: filePath });
+    }
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    for (const filePath of this.paths) {
+      fs.unwatchFile(filePath);
+    }
+  }
+
+  private scheduleReload(filePath: string): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.reload(filePath), this.debounceMs);
+  }
+
+  private reload(filePath: string): void {
+    try {
+      const config = Config.load();
+      logger.info('Reloaded configuration', { path: filePath });
+      this.onChange(config);
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        logger.error('Ignoring invalid config change, keeping the previous configuration', {
+          path: filePath,
+          problems: error.problems,
+        });
+      } else {
+        logger.error('Error reloading config', { path: filePath, error });
+      }
+    }
+  }
+}
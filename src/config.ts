@@ -1,31 +1,321 @@
 import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LeaderProfile, readLeaderProfiles } from './leaders/leader-profiles';
+import { SizingStrategy, SIZING_STRATEGIES } from './sizing/position-sizer';
+import { RiskLimits } from './risk/rules';
+import { SlippageSettings } from './prediction-markets/monaco-price-ladder';
+import { OrderLifecycleSettings } from './orders/order-manager';
+import { ExecutionSettings } from './execution/transaction-sender';
+import { WalletSettings } from './wallet/wallet-provider';
+import { ConfigValidationError, validateConfig } from './config-schema';
+import { ControlApiSettings } from './api/control-api';
+import { LOG_FORMATS, LOG_LEVELS, LoggingSettings } from './observability/logger';
+import { MetricsSettings } from './observability/metrics';
+import { NOTIFICATION_EVENTS, NotificationEvent, NotificationSettings } from './notifications/notifier';
+import { SettlementSettings } from './accounting/settlement-tracker';
+import { ConsensusSettings } from './signals/consensus';
+import { FADE_SIZING_MODES, FadeSettings } from './sizing/fade-sizing';
 
 dotenv.config();
 
+export type IngestionMode = 'poll' | 'websocket';
+
 export interface BotConfig {
   rpcUrl: string;
-  privateKey?: string;
-  keypairPath?: string;
+  wsUrl?: string;
+  wallet: WalletSettings;
   targetAddresses: string[];
   predictionMarketPrograms: string[];
   maxPositionSize: number; 
   maxDailyLoss: number; 
+  riskLimits: RiskLimits;
+  consensus: ConsensusSettings;
+  slippage: SlippageSettings;
+  orderLifecycle: OrderLifecycleSettings;
+  execution: ExecutionSettings;
   copyMultiplier: number; 
+  sizingStrategy: SizingStrategy;
+  fixedStake: number;
+  kellyEdge: number;
+  kellyFraction: number;
+  kellyMaxFraction: number;
+  fade: FadeSettings;
   pollInterval: number; 
+  ingestionMode: IngestionMode;
+  gapFillInterval: number;
+  journalPath: string;
+  pauseStatePath: string;
+  paperTrading: boolean;
+  paperStatePath: string;
+  orderLinksPath: string;
+  ordersStatePath: string;
+  leaderProfilesPath: string;
+  leaderProfiles: LeaderProfile[];
+  pnlStatePath: string;
+  pnlTimezone: string;
+  settlement: SettlementSettings;
+  settlementStatePath: string;
+  configPath?: string;
+  controlApi: ControlApiSettings;
+  logging: LoggingSettings;
+  metrics: MetricsSettings;
+  notifications: NotificationSettings;
+}
+
+export interface ConfigFile {
+  targetAddresses?: string[];
+  leaders?: LeaderProfile[];
+  maxPositionSize?: number;
+  maxDailyLoss?: number;
+  copyMultiplier?: number;
+  sizingStrategy?: SizingStrategy;
+  fixedStake?: number;
+  kellyEdge?: number;
+  kellyFraction?: number;
+  kellyMaxFraction?: number;
+  pollInterval?: number;
+  gapFillInterval?: number;
+  slippage?: Partial<SlippageSettings>;
+  riskLimits?: Partial<RiskLimits>;
+  consensus?: Partial<ConsensusSettings>;
+  fade?: Partial<FadeSettings>;
+}
+
+const CONFIG_FILE_NUMBERS = [
+  'maxPositionSize',
+  'maxDailyLoss',
+  'copyMultiplier',
+  'fixedStake',
+  'kellyEdge',
+  'kellyFraction',
+  'kellyMaxFraction',
+  'pollInterval',
+  'gapFillInterval',
+] as const;
+
+function optionalNumber(name: string): number | undefined {
+  const value = process.env[name];
+  return value ? parseFloat(value) : undefined;
+}
+
+function optionalList(name: string): string[] | undefined {
+  const value = process.env[name];
+  return value ? value.split(',').map(v => v.trim()).filter(Boolean) : undefined;
+}
+
+function notificationsFromEnv(): NotificationSettings {
+  const env = process.env;
+  const events = (name: string) => optionalList(name) as NotificationEvent[] | undefined;
+
+  return {
+    events: events('NOTIFY_EVENTS') || NOTIFICATION_EVENTS,
+    rateLimit: {
+      max: parseInt(env.NOTIFY_RATE_LIMIT || '10', 10),
+      windowMs: parseInt(env.NOTIFY_RATE_WINDOW_MS || '60000', 10),
+    },
+    webhook: env.NOTIFY_WEBHOOK_URL
+      ? { url: env.NOTIFY_WEBHOOK_URL, events: events('NOTIFY_WEBHOOK_EVENTS') }
+      : undefined,
+    telegram: env.TELEGRAM_BOT_TOKEN || env.TELEGRAM_CHAT_ID
+      ? {
+        botToken: env.TELEGRAM_BOT_TOKEN || '',
+        chatId: env.TELEGRAM_CHAT_ID || '',
+        apiUrl: env.TELEGRAM_API_URL,
+        events: events('TELEGRAM_EVENTS'),
+      }
+      : undefined,
+    discord: env.DISCORD_WEBHOOK_URL
+      ? { webhookUrl: env.DISCORD_WEBHOOK_URL, events: events('DISCORD_EVENTS') }
+      : undefined,
+    email: env.SMTP_HOST
+      ? {
+        smtp: {
+          host: env.SMTP_HOST,
+          port: parseInt(env.SMTP_PORT || (env.SMTP_SECURE === 'true' ? '465' : '587'), 10),
+          secure: env.SMTP_SECURE === 'true',
+          user: env.SMTP_USER,
+          pass: env.SMTP_PASS,
+        },
+        from: env.SMTP_FROM || '',
+        to: optionalList('SMTP_TO') || [],
+        events: events('SMTP_EVENTS'),
+      }
+      : undefined,
+  };
+}
+
+function loadConfigFile(filePath: string): ConfigFile {
+  if (!fs.existsSync(filePath)) {
+    throw new ConfigValidationError([`CONFIG_PATH file ${filePath} does not exist`]);
+  }
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error('expected a JSON object');
+    }
+    return raw;
+  } catch (error) {
+    throw new ConfigValidationError([`CONFIG_PATH file ${filePath} could not be parsed: ${(error as Error).message}`]);
+  }
+}
+
+function applyConfigFile(config: BotConfig, file: ConfigFile): BotConfig {
+  const merged: BotConfig = {
+    ...config,
+    sizingStrategy: file.sizingStrategy ?? config.sizingStrategy,
+    slippage: { ...config.slippage, ...file.slippage },
+    riskLimits: { ...config.riskLimits, ...file.riskLimits },
+    consensus: { ...config.consensus, ...file.consensus },
+    fade: { ...config.fade, ...file.fade },
+  };
+
+  for (const key of CONFIG_FILE_NUMBERS) {
+    if (file[key] !== undefined) {
+      merged[key] = Number(file[key]);
+    }
+  }
+
+  if (file.leaders) {
+    const profiles = new Map(config.leaderProfiles.map(profile => [profile.address, profile]));
+    for (const profile of file.leaders) {
+      profiles.set(profile.address, { ...profile, enabled: profile.enabled !== false });
+    }
+    merged.leaderProfiles = [...profiles.values()];
+  }
+
+  merged.targetAddresses = [...new Set([
+    ...config.targetAddresses,
+    ...(file.targetAddresses || []),
+    ...merged.leaderProfiles.map(p => p.address),
+  ])];
+
+  return merged;
 }
 
 export class Config {
   static load(): BotConfig {
+    const problems: string[] = [];
+    const config = Config.fromEnv(problems);
+    const merged = config.configPath ? applyConfigFile(config, loadConfigFile(config.configPath)) : config;
+
+    problems.push(...validateConfig(merged));
+    if (problems.length > 0) {
+      throw new ConfigValidationError(problems);
+    }
+
+    return merged;
+  }
+
+  private static fromEnv(problems: string[]): BotConfig {
+    const leaderProfilesPath = process.env.LEADER_PROFILES_PATH || './leaders.json';
+    const journalPath = process.env.JOURNAL_PATH || './data/trade-journal.jsonl';
+    const { profiles: leaderProfiles, problems: profileProblems } = readLeaderProfiles(leaderProfilesPath);
+    problems.push(...profileProblems);
+    const envTargets = (process.env.TARGET_ADDRESSES || '').split(',').map(t => t.trim()).filter(Boolean);
+
     return {
       rpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
-      privateKey: process.env.PRIVATE_KEY,
-      keypairPath: process.env.KEYPAIR_PATH,
-      targetAddresses: (process.env.TARGET_ADDRESSES || '').split(',').filter(Boolean),
-      predictionMarketPrograms: (process.env.PREDICTION_MARKET_PROGRAMS || '').split(',').filter(Boolean),
+      wsUrl: process.env.SOLANA_WS_URL,
+      wallet: {
+        privateKey: process.env.PRIVATE_KEY,
+        keypairPath: process.env.KEYPAIR_PATH,
+        keystorePath: process.env.KEYSTORE_PATH,
+        keystorePassphrase: process.env.KEYSTORE_PASSPHRASE,
+        remoteSignerUrl: process.env.REMOTE_SIGNER_URL,
+        remoteSignerPublicKey: process.env.REMOTE_SIGNER_PUBKEY,
+        remoteSignerToken: process.env.REMOTE_SIGNER_TOKEN,
+      },
+      targetAddresses: [...new Set([...envTargets, ...leaderProfiles.map(p => p.address)])],
+      predictionMarketPrograms: (process.env.PREDICTION_MARKET_PROGRAMS || '').split(',').map(p => p.trim()).filter(Boolean),
       maxPositionSize: parseFloat(process.env.MAX_POSITION_SIZE || '1.0'),
       maxDailyLoss: parseFloat(process.env.MAX_DAILY_LOSS || '5.0'),
+      slippage: {
+        mode: process.env.SLIPPAGE_MODE === 'percent' ? 'percent' : 'ticks',
+        value: parseFloat(process.env.SLIPPAGE || '2'),
+      },
+      orderLifecycle: {
+        timeoutMs: parseInt(process.env.ORDER_TIMEOUT_MS || '60000', 10),
+        cancelBeforeLockSeconds: parseInt(process.env.CANCEL_BEFORE_LOCK_SECONDS || '60', 10),
+        unmatchedAction: process.env.UNMATCHED_ACTION === 'reprice' ? 'reprice' : 'cancel',
+        repriceSlippage: {
+          mode: process.env.SLIPPAGE_MODE === 'percent' ? 'percent' : 'ticks',
+          value: parseFloat(process.env.REPRICE_SLIPPAGE || '5'),
+        },
+        maxReprices: parseInt(process.env.MAX_REPRICES || '2', 10),
+      },
+      execution: {
+        priorityFeeMode: process.env.PRIORITY_FEE_MODE === 'auto' ? 'auto' : 'fixed',
+        priorityFeeMicroLamports: parseInt(process.env.PRIORITY_FEE_MICROLAMPORTS || '0', 10),
+        priorityFeePercentile: parseFloat(process.env.PRIORITY_FEE_PERCENTILE || '75'),
+        maxPriorityFeeMicroLamports: parseInt(process.env.MAX_PRIORITY_FEE_MICROLAMPORTS || '1000000', 10),
+        computeUnitLimit: parseInt(process.env.COMPUTE_UNIT_LIMIT || '200000', 10),
+        maxSendAttempts: parseInt(process.env.MAX_SEND_ATTEMPTS || '3', 10),
+        simulate: process.env.SIMULATE_TRANSACTIONS !== 'false',
+      },
+      riskLimits: {
+        maxMarketExposure: optionalNumber('MAX_MARKET_EXPOSURE'),
+        maxEventExposure: optionalNumber('MAX_EVENT_EXPOSURE'),
+        maxOpenMarkets: optionalNumber('MAX_OPEN_MARKETS'),
+        minSecondsBeforeLock: optionalNumber('MIN_SECONDS_BEFORE_LOCK'),
+        allowInplay: process.env.ALLOW_INPLAY === 'true',
+        maxPrice: optionalNumber('MAX_PRICE'),
+        minLiquidity: optionalNumber('MIN_LIQUIDITY'),
+        leaderCooldownMs: optionalNumber('LEADER_COOLDOWN_MS'),
+      },
+      consensus: {
+        enabled: process.env.CONSENSUS_MODE === 'true',
+        windowMs: parseInt(process.env.CONSENSUS_WINDOW_MS || '300000', 10),
+        threshold: parseFloat(process.env.CONSENSUS_THRESHOLD || '2'),
+        maxScale: parseFloat(process.env.CONSENSUS_MAX_SCALE || '2'),
+      },
       copyMultiplier: parseFloat(process.env.COPY_MULTIPLIER || '1.0'),
+      sizingStrategy: SIZING_STRATEGIES.find(s => s === process.env.SIZING_STRATEGY) || 'multiplier',
+      fixedStake: parseFloat(process.env.FIXED_STAKE || '0.1'),
+      kellyEdge: parseFloat(process.env.KELLY_EDGE || '0'),
+      kellyFraction: parseFloat(process.env.KELLY_FRACTION || '0.25'),
+      kellyMaxFraction: parseFloat(process.env.KELLY_MAX_FRACTION || '0.05'),
+      fade: {
+        sizing: FADE_SIZING_MODES.find(m => m === process.env.FADE_SIZING) || 'liability',
+        multiplier: parseFloat(process.env.FADE_MULTIPLIER || '1.0'),
+        maxLiability: parseFloat(process.env.FADE_MAX_LIABILITY || '1.0'),
+      },
       pollInterval: parseInt(process.env.POLL_INTERVAL || '5000', 10),
+      ingestionMode: process.env.INGESTION_MODE === 'websocket' ? 'websocket' : 'poll',
+      gapFillInterval: parseInt(process.env.GAP_FILL_INTERVAL || '60000', 10),
+      journalPath,
+      pauseStatePath: process.env.PAUSE_STATE_PATH || path.join(path.dirname(journalPath), 'pause-state.json'),
+      paperTrading: process.env.PAPER_TRADING === 'true',
+      paperStatePath: process.env.PAPER_STATE_PATH || './data/paper-orders.json',
+      orderLinksPath: process.env.ORDER_LINKS_PATH || './data/order-links.json',
+      ordersStatePath: process.env.ORDERS_STATE_PATH || './data/orders.json',
+      leaderProfilesPath,
+      leaderProfiles,
+      pnlStatePath: process.env.PNL_STATE_PATH || './data/pnl-state.json',
+      pnlTimezone: process.env.PNL_TIMEZONE || 'UTC',
+      settlement: {
+        intervalMs: parseInt(process.env.SETTLEMENT_INTERVAL_MS || '300000', 10),
+        stuckAfterHours: parseFloat(process.env.SETTLEMENT_STUCK_HOURS || '48'),
+        claimWinnings: process.env.CLAIM_WINNINGS !== 'false',
+        maxClaimAttempts: parseInt(process.env.MAX_CLAIM_ATTEMPTS || '5', 10),
+      },
+      settlementStatePath: process.env.SETTLEMENT_STATE_PATH || './data/settlements.json',
+      configPath: process.env.CONFIG_PATH || undefined,
+      controlApi: {
+        port: process.env.CONTROL_API_PORT ? parseInt(process.env.CONTROL_API_PORT, 10) : undefined,
+        host: process.env.CONTROL_API_HOST || '127.0.0.1',
+        token: process.env.CONTROL_API_TOKEN,
+      },
+      logging: {
+        level: LOG_LEVELS.find(l => l === process.env.LOG_LEVEL) || 'info',
+        format: LOG_FORMATS.find(f => f === process.env.LOG_FORMAT) || 'pretty',
+      },
+      metrics: {
+        port: process.env.METRICS_PORT ? parseInt(process.env.METRICS_PORT, 10) : undefined,
+        host: process.env.METRICS_HOST || '127.0.0.1',
+      },
+      notifications: notificationsFromEnv(),
     };
   }
 }
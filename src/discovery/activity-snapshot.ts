@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MonacoMarket, MonacoProtocolIntegration } from '../prediction-markets/monaco-protocol';
+import { SETTLED_STATUSES, VOIDED_STATUSES } from '../accounting/pnl-tracker';
+
+export interface SnapshotMarket {
+  marketPk: string;
+  marketTitle: string;
+  marketStatus: string;
+  marketWinningOutcomeIndex: number | null;
+  marketLockTimestamp: number;
+  marketSettleTimestamp?: number;
+}
+
+export interface SnapshotOrder {
+  orderPk: string;
+  marketPk: string;
+  purchaser: string;
+  outcomeIndex: number;
+  forOutcome: boolean;
+  stake: number;
+  stakeUnmatched: number;
+  voidedStake: number;
+  expectedPrice: number;
+  status: string;
+  createdAt?: number;
+}
+
+export interface SnapshotPosition {
+  marketPk: string;
+  purchaser: string;
+  outcomeSums: number[];
+  maxExposure: number;
+}
+
+export interface ActivitySnapshot {
+  createdAt: string;
+  since: number;
+  markets: Record<string, SnapshotMarket>;
+  orders: SnapshotOrder[];
+  positions: SnapshotPosition[];
+}
+
+// Markets that can carry orders and positions; closed markets have had their accounts reclaimed.
+const SNAPSHOT_STATUSES = ['open', 'locked', 'readyForSettlement', ...SETTLED_STATUSES, ...VOIDED_STATUSES];
+
+function inWindow(market: MonacoMarket, since: number): boolean {
+  if (SETTLED_STATUSES.includes(market.marketStatus) || VOIDED_STATUSES.includes(market.marketStatus)) {
+    return (market.marketSettleTimestamp ?? market.marketLockTimestamp) >= since;
+  }
+  return true;
+}
+
+export async function buildSnapshot(
+  monaco: MonacoProtocolIntegration,
+  since: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<ActivitySnapshot> {
+  const markets: MonacoMarket[] = [];
+  for (const status of SNAPSHOT_STATUSES) {
+    const found = status === 'open' ? await monaco.getActiveMarkets() : await monaco.getMarketsByStatus(status);
+    markets.push(...found.filter(market => inWindow(market, since)));
+  }
+
+  const snapshot: ActivitySnapshot = {
+    createdAt: new Date().toISOString(),
+    since,
+    markets: {},
+    orders: [],
+    positions: [],
+  };
+
+  for (const [i, market] of markets.entries()) {
+    const marketPk = market.marketPk.toBase58();
+    if (marketPk in snapshot.markets) continue;
+
+    snapshot.markets[marketPk] = {
+      marketPk,
+      marketTitle: market.marketTitle,
+      marketStatus: market.marketStatus,
+      marketWinningOutcomeIndex: market.marketWinningOutcomeIndex,
+      marketLockTimestamp: market.marketLockTimestamp,
+      marketSettleTimestamp: market.marketSettleTimestamp,
+    };
+
+    for (const order of await monaco.getMarketOrders(market.marketPk)) {
+      snapshot.orders.push({
+        orderPk: order.orderPk.toBase58(),
+        marketPk,
+        purchaser: order.purchaserPk.toBase58(),
+        outcomeIndex: order.outcomeIndex,
+        forOutcome: order.forOutcome,
+        stake: order.stake,
+        stakeUnmatched: order.stakeUnmatched,
+        voidedStake: order.voidedStake,
+        expectedPrice: order.expectedPrice,
+        status: order.status,
+        createdAt: order.creationTimestamp,
+      });
+    }
+
+    for (const position of await monaco.getMarketPositionAccounts(market.marketPk)) {
+      snapshot.positions.push({
+        marketPk,
+        purchaser: position.purchaserPk.toBase58(),
+        outcomeSums: position.outcomeSums,
+        maxExposure: position.maxExposure,
+      });
+    }
+
+    onProgress?.(i + 1, markets.length);
+  }
+
+  return snapshot;
+}
+
+export async function loadSnapshot(filePath: string): Promise<ActivitySnapshot> {
+  return JSON.parse(await fs.readFile(filePath, 'utf8'));
+}
+
+export async function saveSnapshot(filePath: string, snapshot: ActivitySnapshot): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2), 'utf8');
+}
@@ -0,0 +1,168 @@
+import { Connection, Keypair } from '@solana/web3.js';
+import { promises as fs } from 'fs';
+import { Config } from '../config';
+import { loadLeaderProfiles, saveLeaderProfiles } from '../leaders/leader-profiles';
+import { MonacoProtocolIntegration } from '../prediction-markets/monaco-protocol';
+import { KeypairSigner } from '../wallet/wallet-signer';
+import { ActivitySnapshot, buildSnapshot, loadSnapshot, saveSnapshot } from './activity-snapshot';
+import { LeaderScore, scoreLeaders } from './leader-scoring';
+
+const SORT_KEYS = ['score', 'roi', 'volume', 'markets', 'odds', 'consistency'] as const;
+type SortKey = typeof SORT_KEYS[number];
+
+const USAGE = `Usage: npm run discover -- [options]
+
+Options:
+  --days <n>                Scoring window in days (default 30)
+  --min-markets <n>         Minimum settled markets per wallet (default 3)
+  --min-volume <amount>     Minimum matched volume per wallet (default 0)
+  --sort <key>              ${SORT_KEYS.join(' | ')} (default score)
+  --limit <n>               Rows to print (default 20)
+  --rpc <url>               RPC endpoint, e.g. a local validator (default SOLANA_RPC_URL)
+  --snapshot <file>         Score offline from a recorded activity snapshot
+  --save-snapshot <file>    Save fetched market, order and position accounts
+  --out <file>              Write the full leaderboard as JSON
+  --promote <n>             Add the top n wallets to LEADER_PROFILES_PATH`;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[arg.slice(2)] = 'true';
+    } else {
+      args[arg.slice(2)] = next;
+      i++;
+    }
+  }
+
+  return args;
+}
+
+function sortLeaders(leaders: LeaderScore[], key: SortKey): LeaderScore[] {
+  const value = (leader: LeaderScore): number => {
+    switch (key) {
+      case 'roi': return leader.roi;
+      case 'volume': return leader.volume;
+      case 'markets': return leader.markets;
+      case 'odds': return -leader.averageOdds;
+      case 'consistency': return leader.consistency;
+      default: return leader.score;
+    }
+  };
+
+  return [...leaders].sort((a, b) => value(b) - value(a));
+}
+
+function printLeaderboard(leaders: LeaderScore[], limit: number): void {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  console.log(`\n🏆 ${leaders.length} wallets qualified\n`);
+  console.log('   #   score  roi       pnl        volume     mkts  odds   win     cons   address');
+
+  for (const leader of leaders.slice(0, limit)) {
+    console.log([
+      `   ${String(leader.rank).padEnd(3)}`,
+      leader.score.toFixed(3).padEnd(6),
+      pct(leader.roi).padEnd(9),
+      leader.realizedPnl.toFixed(2).padEnd(10),
+      leader.volume.toFixed(2).padEnd(10),
+      `${leader.settledMarkets}/${leader.markets}`.padEnd(5),
+      leader.averageOdds.toFixed(2).padEnd(6),
+      pct(leader.winRate).padEnd(7),
+      leader.consistency.toFixed(2).padEnd(6),
+      leader.address,
+    ].join(' '));
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config = Config.load();
+  const sort = SORT_KEYS.find(key => key === (args.sort || 'score'));
+  if (!sort) {
+    throw new Error(`Unknown sort key "${args.sort}"\n\n${USAGE}`);
+  }
+
+  const days = parseFloat(args.days || '30');
+  let since = Math.floor(Date.now() / 1000 - days * 86400);
+  let snapshot: ActivitySnapshot;
+
+  if (args.snapshot) {
+    snapshot = await loadSnapshot(args.snapshot);
+    // A recorded snapshot is scored relative to when it was taken, not to today.
+    since = Math.floor(new Date(snapshot.createdAt).getTime() / 1000 - days * 86400);
+    console.log(`📂 Loaded ${Object.keys(snapshot.markets).length} markets and ${snapshot.orders.length} orders from ${args.snapshot}`);
+  } else {
+    const rpcUrl = args.rpc || config.rpcUrl;
+    const connection = new Connection(rpcUrl, 'confirmed');
+    const monaco = new MonacoProtocolIntegration(connection, new KeypairSigner(Keypair.generate()));
+
+    console.log(`🔎 Scanning Monaco markets from the last ${days} days on ${rpcUrl}...`);
+    snapshot = await buildSnapshot(monaco, since, (done, total) => {
+      if (done % 25 === 0 || done === total) {
+        console.log(`   ${done}/${total} markets`);
+      }
+    });
+
+    if (args['save-snapshot']) {
+      await saveSnapshot(args['save-snapshot'], snapshot);
+      console.log(`💾 Saved snapshot to ${args['save-snapshot']}`);
+    }
+  }
+
+  const scored = scoreLeaders(snapshot, {
+    since,
+    minSettledMarkets: parseInt(args['min-markets'] || '3', 10),
+    minVolume: parseFloat(args['min-volume'] || '0'),
+  });
+  const leaders = sortLeaders(scored, sort).map((leader, i) => ({ ...leader, rank: i + 1 }));
+
+  printLeaderboard(leaders, parseInt(args.limit || '20', 10));
+
+  const known = new Set(config.targetAddresses);
+  const fresh = leaders.filter(leader => !known.has(leader.address));
+
+  if (args.out) {
+    await fs.writeFile(args.out, JSON.stringify({
+      createdAt: new Date().toISOString(),
+      since,
+      sort,
+      leaders,
+    }, null, 2), 'utf8');
+    console.log(`\n💾 Leaderboard written to ${args.out}`);
+  }
+
+  if (args.promote) {
+    const count = parseInt(args.promote, 10);
+    const promoted = fresh.slice(0, count);
+    const profiles = loadLeaderProfiles(config.leaderProfilesPath);
+
+    saveLeaderProfiles(config.leaderProfilesPath, [
+      ...profiles,
+      ...promoted.map(leader => ({
+        address: leader.address,
+        label: `discovered #${leader.rank} (roi ${(leader.roi * 100).toFixed(1)}%)`,
+        enabled: true,
+      })),
+    ]);
+    console.log(`\n➕ Promoted ${promoted.length} wallets into ${config.leaderProfilesPath}`);
+  } else if (fresh.length > 0) {
+    console.log(`\n   Not yet targeted: ${fresh.slice(0, 5).map(l => l.address).join(',')}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Discovery failed:', error);
+  process.exit(1);
+});
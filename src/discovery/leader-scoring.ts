@@ -0,0 +1,164 @@
+import { ActivitySnapshot, SnapshotMarket } from './activity-snapshot';
+import { SETTLED_STATUSES } from '../accounting/pnl-tracker';
+
+export interface ScoreWeights {
+  roi: number;
+  consistency: number;
+  volume: number;
+  markets: number;
+  odds: number;
+}
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  roi: 0.35,
+  consistency: 0.25,
+  volume: 0.15,
+  markets: 0.15,
+  odds: 0.1,
+};
+
+export interface ScoringOptions {
+  since: number;
+  minSettledMarkets: number;
+  minVolume: number;
+  weights?: ScoreWeights;
+}
+
+export interface LeaderScore {
+  rank: number;
+  address: string;
+  score: number;
+  roi: number;
+  realizedPnl: number;
+  risked: number;
+  volume: number;
+  orders: number;
+  markets: number;
+  settledMarkets: number;
+  averageOdds: number;
+  winRate: number;
+  consistency: number;
+}
+
+interface LeaderActivity {
+  volume: number;
+  oddsWeight: number;
+  orders: number;
+  markets: Set<string>;
+  returns: number[];
+  realizedPnl: number;
+  risked: number;
+}
+
+// Stops a couple of identical results from producing an unbounded consistency ratio.
+const MIN_RETURN_STDEV = 0.05;
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function stdev(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - avg) ** 2)));
+}
+
+// Share of candidates with a lower value, counting ties as half, so every metric lands on 0..1.
+function percentiles(values: number[]): number[] {
+  if (values.length <= 1) return values.map(() => 1);
+
+  return values.map(value => {
+    const below = values.filter(v => v < value).length;
+    const ties = values.filter(v => v === value).length - 1;
+    return (below + ties / 2) / (values.length - 1);
+  });
+}
+
+function settledBefore(market: SnapshotMarket, since: number): boolean {
+  return market.marketSettleTimestamp !== undefined && market.marketSettleTimestamp < since;
+}
+
+function collectActivity(snapshot: ActivitySnapshot, since: number): Map<string, LeaderActivity> {
+  const activity = new Map<string, LeaderActivity>();
+  const get = (address: string) => {
+    let entry = activity.get(address);
+    if (!entry) {
+      entry = { volume: 0, oddsWeight: 0, orders: 0, markets: new Set(), returns: [], realizedPnl: 0, risked: 0 };
+      activity.set(address, entry);
+    }
+    return entry;
+  };
+
+  for (const order of snapshot.orders) {
+    const market = snapshot.markets[order.marketPk];
+    if (!market || settledBefore(market, since)) continue;
+    if (order.createdAt !== undefined && order.createdAt < since) continue;
+
+    const matched = order.stake - order.stakeUnmatched - order.voidedStake;
+    if (matched <= 0) continue;
+
+    const entry = get(order.purchaser);
+    entry.volume += matched;
+    entry.oddsWeight += matched * order.expectedPrice;
+    entry.orders++;
+    entry.markets.add(order.marketPk);
+  }
+
+  for (const position of snapshot.positions) {
+    const market = snapshot.markets[position.marketPk];
+    if (!market || !SETTLED_STATUSES.includes(market.marketStatus)) continue;
+    if (market.marketWinningOutcomeIndex === null || position.maxExposure <= 0) continue;
+    if (settledBefore(market, since)) continue;
+
+    const pnl = position.outcomeSums[market.marketWinningOutcomeIndex] ?? 0;
+    const entry = get(position.purchaser);
+    entry.realizedPnl += pnl;
+    entry.risked += position.maxExposure;
+    entry.returns.push(pnl / position.maxExposure);
+    entry.markets.add(position.marketPk);
+  }
+
+  return activity;
+}
+
+export function scoreLeaders(snapshot: ActivitySnapshot, options: ScoringOptions): LeaderScore[] {
+  const weights = options.weights || DEFAULT_SCORE_WEIGHTS;
+
+  const candidates = [...collectActivity(snapshot, options.since).entries()]
+    .filter(([, a]) =>
+      a.returns.length >= options.minSettledMarkets
+      && a.volume >= options.minVolume
+    )
+    .map(([address, a]) => ({
+      address,
+      roi: a.risked > 0 ? a.realizedPnl / a.risked : 0,
+      realizedPnl: a.realizedPnl,
+      risked: a.risked,
+      volume: a.volume,
+      orders: a.orders,
+      markets: a.markets.size,
+      settledMarkets: a.returns.length,
+      averageOdds: a.volume > 0 ? a.oddsWeight / a.volume : 0,
+      winRate: a.returns.filter(r => r > 0).length / a.returns.length,
+      consistency: a.returns.length >= 2 ? mean(a.returns) / Math.max(stdev(a.returns), MIN_RETURN_STDEV) : 0,
+    }));
+
+  const roi = percentiles(candidates.map(c => c.roi));
+  const consistency = percentiles(candidates.map(c => c.consistency));
+  const volume = percentiles(candidates.map(c => c.volume));
+  const markets = percentiles(candidates.map(c => c.markets));
+  // Shorter average odds mean fewer, smaller swings, which a copier can follow more reliably.
+  const odds = percentiles(candidates.map(c => -c.averageOdds));
+
+  return candidates
+    .map((candidate, i) => ({
+      ...candidate,
+      rank: 0,
+      score: weights.roi * roi[i]
+        + weights.consistency * consistency[i]
+        + weights.volume * volume[i]
+        + weights.markets * markets[i]
+        + weights.odds * odds[i],
+    }))
+    .sort((a, b) => b.score - a.score || b.roi - a.roi)
+    .map((leader, i) => ({ ...leader, rank: i + 1 }));
+}
@@ -0,0 +1,439 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { TradeExecutor } from './trade-executor';
+import { MonacoPositionManager } from '../prediction-markets/monaco-position-manager';
+import { ExposureLeg, MarketExposure, outcomeProfits } from '../prediction-markets/market-exposure';
+import {
+  MonacoProtocolIntegration,
+  MonacoMarketOutcome,
+  MonacoPosition,
+  PlacedOrder,
+} from '../prediction-markets/monaco-protocol';
+import { MonacoMarketPriceService, MarketPrices } from '../prediction-markets/monaco-market-prices';
+import { assertValidPrice } from '../prediction-markets/monaco-price-ladder';
+import {
+  OrderLifecycleSettings,
+  OrderReplacement,
+  repricePrice,
+  TrackedOrder,
+  unmatchedExpiry,
+} from '../orders/order-manager';
+import { logger } from '../observability/logger';
+
+export type PaperOrderStatus = 'open' | 'matched' | 'cancelled';
+
+export interface PaperOrder {
+  orderPk: string;
+  signature: string;
+  marketPk: string;
+  outcomeIndex: number;
+  outcomeTitle: string;
+  orderType: 'back' | 'lay';
+  stake: number;
+  price: number;
+  matchedStake: number;
+  matchedValue: number;
+  status: PaperOrderStatus;
+  originalPrice?: number;
+  reprices?: number;
+  marketLockTimestamp?: number;
+  createdAt: string;
+}
+
+export class PaperTradingExecutor implements TradeExecutor {
+  readonly mode = 'paper';
+  private live: MonacoPositionManager;
+  private statePath: string;
+  private lifecycle: OrderLifecycleSettings;
+  private orders: Map<string, PaperOrder> = new Map();
+  // Ladder liquidity our paper fills have taken, per market, outcome, side and price.
+  private consumed: Map<string, { liquidity: number; consumed: number }> = new Map();
+
+  constructor(live: MonacoPositionManager, statePath: string, lifecycle: OrderLifecycleSettings) {
+    this.live = live;
+    this.statePath = statePath;
+    this.lifecycle = lifecycle;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const contents = await fs.readFile(this.statePath, 'utf8');
+      const orders: PaperOrder[] = JSON.parse(contents);
+      this.orders = new Map(orders.map(order => [order.orderPk, order]));
+      logger.info('Loaded paper orders', { count: orders.length, path: this.statePath });
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  getMonacoClient(): MonacoProtocolIntegration {
+    return this.live.getMonacoClient();
+  }
+
+  getPriceService(): MonacoMarketPriceService {
+    return this.live.getPriceService();
+  }
+
+  startPriceCycle(): void {
+    this.live.startPriceCycle();
+  }
+
+  async getMarketPrices(marketAddress: PublicKey): Promise<MarketPrices | null> {
+    return await this.live.getMarketPrices(marketAddress);
+  }
+
+  async getMarketOutcomes(marketAddress: PublicKey): Promise<MonacoMarketOutcome[]> {
+    return await this.live.getMarketOutcomes(marketAddress);
+  }
+
+  async getOutcomeTitle(marketAddress: PublicKey, outcomeIndex: number): Promise<string> {
+    return await this.live.getOutcomeTitle(marketAddress, outcomeIndex);
+  }
+
+  async getMonacoPositions(userAddress: PublicKey): Promise<MonacoPosition[]> {
+    await this.fillOpenOrders();
+
+    const grouped = new Map<string, PaperOrder[]>();
+    for (const order of this.orders.values()) {
+      if (order.status === 'cancelled' && order.matchedStake <= 0) continue;
+
+      const key = `${order.marketPk}:${order.outcomeIndex}`;
+      grouped.set(key, [...(grouped.get(key) || []), order]);
+    }
+
+    return [...grouped.values()].map(orders => {
+      const matchedAmount = orders.reduce((sum, o) => sum + o.matchedStake, 0);
+      const matchedValue = orders.reduce((sum, o) => sum + o.matchedValue, 0);
+      const pendingAmount = orders
+        .filter(o => o.status === 'open')
+        .reduce((sum, o) => sum + (o.stake - o.matchedStake), 0);
+
+      return {
+        marketPk: new PublicKey(orders[0].marketPk),
+        marketTitle: '',
+        outcomeIndex: orders[0].outcomeIndex,
+        outcomeTitle: orders[0].outcomeTitle,
+        matchedAmount,
+        pendingAmount,
+        availableAmount: 0,
+        averageMatchedPrice: matchedAmount > 0 ? matchedValue / matchedAmount : 0,
+      };
+    });
+  }
+
+  async getAllPositions(userAddress: PublicKey): Promise<MarketExposure[]> {
+    await this.fillOpenOrders();
+
+    const markets = new Set(
+      this.getOrders()
+        .filter(order => order.matchedStake > 0 || order.status === 'open')
+        .map(order => order.marketPk)
+    );
+
+    const exposures = await Promise.all(
+      [...markets].map(marketPk => this.getMarketPosition(userAddress, new PublicKey(marketPk)))
+    );
+    return exposures.filter((exposure): exposure is MarketExposure => exposure !== null);
+  }
+
+  async getMarketPosition(userAddress: PublicKey, marketAddress: PublicKey): Promise<MarketExposure | null> {
+    const orders = this.getOrders().filter(order => order.marketPk === marketAddress.toBase58());
+
+    const matched: ExposureLeg[] = orders
+      .filter(order => order.matchedStake > 0)
+      .map(order => ({
+        outcomeIndex: order.outcomeIndex,
+        orderType: order.orderType,
+        stake: order.matchedStake,
+        price: order.matchedValue / order.matchedStake,
+      }));
+    const pending: ExposureLeg[] = orders
+      .filter(order => order.status === 'open' && order.stake > order.matchedStake)
+      .map(order => ({
+        outcomeIndex: order.outcomeIndex,
+        orderType: order.orderType,
+        stake: order.stake - order.matchedStake,
+        price: order.price,
+      }));
+
+    if (matched.length === 0 && pending.length === 0) return null;
+
+    const outcomes = await this.live.getMarketOutcomes(marketAddress);
+    const outcomeCount = Math.max(outcomes.length, ...orders.map(order => order.outcomeIndex + 1));
+    const indexes = Array.from({ length: outcomeCount }, (_, index) => index);
+
+    return await this.live.valueMarket(marketAddress, outcomeProfits(matched, indexes), pending, outcomes);
+  }
+
+  async placeBackOrder(
+    marketAddress: PublicKey,
+    outcomeIndex: number,
+    stake: number,
+    price: number
+  ): Promise<PlacedOrder> {
+    return await this.placeOrder(marketAddress, outcomeIndex, 'back', stake, price);
+  }
+
+  async placeLayOrder(
+    marketAddress: PublicKey,
+    outcomeIndex: number,
+    stake: number,
+    price: number
+  ): Promise<PlacedOrder> {
+    return await this.placeOrder(marketAddress, outcomeIndex, 'lay', stake, price);
+  }
+
+  async cancelOrder(orderPk: PublicKey): Promise<string> {
+    const order = this.orders.get(orderPk.toBase58());
+    if (!order) {
+      throw new Error(`Paper order ${orderPk.toBase58()} not found`);
+    }
+
+    if (order.status === 'open') {
+      order.status = 'cancelled';
+      await this.save();
+      logger.info('Paper order cancelled', { order: order.orderPk, unmatched: order.stake - order.matchedStake });
+    }
+
+    return `paper-cancel-${randomUUID()}`;
+  }
+
+  async claimMarketPosition(marketAddress: PublicKey, voided: boolean): Promise<string | null> {
+    const held = this.getOrders().some(order => order.marketPk === marketAddress.toBase58() && order.matchedStake > 0);
+    if (!held) return null;
+
+    logger.info('Paper position claimed', { market: marketAddress.toBase58(), voided });
+    return `paper-claim-${randomUUID()}`;
+  }
+
+  getOrders(): PaperOrder[] {
+    return [...this.orders.values()];
+  }
+
+  getOrder(orderPk: string): TrackedOrder | undefined {
+    const order = this.orders.get(orderPk);
+    return order ? this.toTrackedOrder(order) : undefined;
+  }
+
+  getOpenOrders(): TrackedOrder[] {
+    return this.getOrders()
+      .filter(order => order.status === 'open')
+      .map(order => this.toTrackedOrder(order));
+  }
+
+  private toTrackedOrder(order: PaperOrder): TrackedOrder {
+    const open = order.status === 'open';
+
+    return {
+      orderPk: order.orderPk,
+      signature: order.signature,
+      marketPk: order.marketPk,
+      outcomeIndex: order.outcomeIndex,
+      orderType: order.orderType,
+      stake: order.stake,
+      price: order.price,
+      originalPrice: order.originalPrice ?? order.price,
+      matchedStake: order.matchedStake,
+      unmatchedStake: open ? order.stake - order.matchedStake : 0,
+      cancelledStake: order.status === 'cancelled' ? order.stake - order.matchedStake : 0,
+      status: order.status,
+      reprices: order.reprices || 0,
+      marketLockTimestamp: order.marketLockTimestamp,
+      createdAt: order.createdAt,
+      updatedAt: order.createdAt,
+    };
+  }
+
+  async manageOpenOrders(): Promise<OrderReplacement[]> {
+    await this.fillOpenOrders();
+
+    const replacements: OrderReplacement[] = [];
+    const now = Date.now();
+
+    for (const tracked of this.getOpenOrders()) {
+      const reason = unmatchedExpiry(tracked, this.lifecycle, now);
+      if (!reason) continue;
+
+      let newPrice: number | null = null;
+      if (reason === 'timeout'
+        && this.lifecycle.unmatchedAction === 'reprice'
+        && tracked.reprices < this.lifecycle.maxReprices) {
+        const ladder = await this.live.getPriceService().getLadder(new PublicKey(tracked.marketPk));
+        newPrice = repricePrice(
+          tracked,
+          ladder?.find(o => o.outcomeIndex === tracked.outcomeIndex),
+          this.lifecycle.repriceSlippage
+        );
+      }
+
+      await this.cancelOrder(new PublicKey(tracked.orderPk));
+      if (!newPrice) continue;
+
+      const placed = await this.placeOrder(
+        new PublicKey(tracked.marketPk),
+        tracked.outcomeIndex,
+        tracked.orderType,
+        tracked.unmatchedStake,
+        newPrice,
+        this.orders.get(tracked.orderPk)
+      );
+      replacements.push({ previousOrderPk: tracked.orderPk, order: placed });
+    }
+
+    return replacements;
+  }
+
+  private async placeOrder(
+    marketAddress: PublicKey,
+    outcomeIndex: number,
+    orderType: 'back' | 'lay',
+    stake: number,
+    price: number,
+    previous?: PaperOrder
+  ): Promise<PlacedOrder> {
+    assertValidPrice(price);
+
+    const market = previous ? null : await this.live.getMonacoClient().getMarket(marketAddress);
+
+    const order: PaperOrder = {
+      orderPk: Keypair.generate().publicKey.toBase58(),
+      signature: `paper-${randomUUID()}`,
+      marketPk: marketAddress.toBase58(),
+      outcomeIndex,
+      outcomeTitle: await this.live.getOutcomeTitle(marketAddress, outcomeIndex),
+      orderType,
+      stake,
+      price,
+      matchedStake: 0,
+      matchedValue: 0,
+      status: 'open',
+      originalPrice: previous ? previous.originalPrice ?? previous.price : price,
+      reprices: previous ? (previous.reprices || 0) + 1 : 0,
+      marketLockTimestamp: previous ? previous.marketLockTimestamp : market?.marketLockTimestamp,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.simulateFill(order);
+    this.orders.set(order.orderPk, order);
+    await this.save();
+
+    logger.info('Paper order placed', {
+      order: order.orderPk,
+      market: order.marketPk,
+      side: orderType,
+      stake,
+      price,
+      matched: order.matchedStake,
+    });
+
+    return {
+      orderPk: new PublicKey(order.orderPk),
+      signature: order.signature,
+      matchedStake: order.matchedStake,
+      averagePrice: order.matchedStake > 0 ? order.matchedValue / order.matchedStake : undefined,
+    };
+  }
+
+  private async fillOpenOrders(): Promise<void> {
+    let changed = false;
+
+    for (const order of this.orders.values()) {
+      if (order.status !== 'open') continue;
+
+      const before = order.matchedStake;
+      await this.simulateFill(order);
+      changed = changed || order.matchedStake !== before;
+    }
+
+    if (changed) {
+      await this.save();
+    }
+  }
+
+  private async simulateFill(order: PaperOrder): Promise<void> {
+    const ladder = await this.live.getPriceService().getLadder(new PublicKey(order.marketPk));
+    const outcome = ladder?.find(o => o.outcomeIndex === order.outcomeIndex);
+    if (!outcome) return;
+
+    const levels = order.orderType === 'back' ? outcome.backs : outcome.lays;
+    this.forgetMissingLevels(order, levels.map(level => level.price));
+    let remaining = order.stake - order.matchedStake;
+
+    for (const level of levels) {
+      if (remaining <= 0) break;
+
+      const acceptable = order.orderType === 'back'
+        ? level.price >= order.price
+        : level.price <= order.price;
+      if (!acceptable) break;
+
+      const fill = Math.min(remaining, this.availableLiquidity(order, level.price, level.liquidity));
+      if (fill <= 0) continue;
+
+      this.consume(order, level.price, level.liquidity, fill);
+      order.matchedStake += fill;
+      order.matchedValue += fill * level.price;
+      remaining -= fill;
+    }
+
+    if (remaining <= 1e-9) {
+      order.status = 'matched';
+    }
+  }
+
+  // Paper fills never reach the real book, so the same liquidity would otherwise fill every
+  // order and every cycle. A level that shrinks was traded by someone else, and the drop is
+  // taken out of what we had already consumed there first.
+  private availableLiquidity(order: PaperOrder, price: number, liquidity: number): number {
+    const key = this.levelKey(order, price);
+    const level = this.consumed.get(key);
+    if (!level) return liquidity;
+
+    if (liquidity < level.liquidity) {
+      level.consumed = Math.max(0, level.consumed - (level.liquidity - liquidity));
+    }
+    level.liquidity = liquidity;
+
+    if (level.consumed <= 0) {
+      this.consumed.delete(key);
+      return liquidity;
+    }
+    return Math.max(0, liquidity - level.consumed);
+  }
+
+  private consume(order: PaperOrder, price: number, liquidity: number, fill: number): void {
+    const key = this.levelKey(order, price);
+    const level = this.consumed.get(key);
+
+    if (level) {
+      level.consumed += fill;
+    } else {
+      this.consumed.set(key, { liquidity, consumed: fill });
+    }
+  }
+
+  // A level gone from the ladder was traded away or pulled, along with what we took from it.
+  private forgetMissingLevels(order: PaperOrder, prices: number[]): void {
+    const prefix = this.levelKey(order, '');
+    const present = new Set(prices.map(price => this.levelKey(order, price)));
+
+    for (const key of this.consumed.keys()) {
+      if (key.startsWith(prefix) && !present.has(key)) {
+        this.consumed.delete(key);
+      }
+    }
+  }
+
+  private levelKey(order: PaperOrder, price: number | ''): string {
+    return `${order.marketPk}:${order.outcomeIndex}:${order.orderType}:${price}`;
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    const tmpPath = `${this.statePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify([...this.orders.values()], null, 2), 'utf8');
+    await fs.rename(tmpPath, this.statePath);
+  }
+}
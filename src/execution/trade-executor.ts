@@ -0,0 +1,51 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  MonacoProtocolIntegration,
+  MonacoMarketOutcome,
+  MonacoPosition,
+  OrderContext,
+  PlacedOrder,
+} from '../prediction-markets/monaco-protocol';
+import { MonacoMarketPriceService, MarketPrices } from '../prediction-markets/monaco-market-prices';
+import type { MarketExposure } from '../prediction-markets/market-exposure';
+import type { OrderReplacement, TrackedOrder } from '../orders/order-manager';
+
+export type ExecutionMode = 'live' | 'paper';
+
+export interface TradeExecutor {
+  readonly mode: ExecutionMode;
+
+  load(): Promise<void>;
+
+  getMonacoClient(): MonacoProtocolIntegration;
+  getPriceService(): MonacoMarketPriceService;
+  startPriceCycle(): void;
+  getMarketPrices(marketAddress: PublicKey): Promise<MarketPrices | null>;
+  getMarketOutcomes(marketAddress: PublicKey): Promise<MonacoMarketOutcome[]>;
+  getOutcomeTitle(marketAddress: PublicKey, outcomeIndex: number): Promise<string>;
+
+  getMonacoPositions(userAddress: PublicKey): Promise<MonacoPosition[]>;
+  getAllPositions(userAddress: PublicKey): Promise<MarketExposure[]>;
+  getMarketPosition(userAddress: PublicKey, marketAddress: PublicKey): Promise<MarketExposure | null>;
+
+  placeBackOrder(
+    marketAddress: PublicKey,
+    outcomeIndex: number,
+    stake: number,
+    price: number,
+    context?: OrderContext
+  ): Promise<PlacedOrder>;
+  placeLayOrder(
+    marketAddress: PublicKey,
+    outcomeIndex: number,
+    stake: number,
+    price: number,
+    context?: OrderContext
+  ): Promise<PlacedOrder>;
+  cancelOrder(orderPk: PublicKey): Promise<string>;
+  getOrder(orderPk: string): TrackedOrder | undefined;
+  getOpenOrders(): TrackedOrder[];
+  manageOpenOrders(): Promise<OrderReplacement[]>;
+  // Returns the payout signature, or null when the position was already paid out.
+  claimMarketPosition(marketAddress: PublicKey, voided: boolean): Promise<string | null>;
+}
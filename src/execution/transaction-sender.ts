@@ -0,0 +1,181 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionExpiredBlockheightExceededError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { WalletSigner } from '../wallet/wallet-signer';
+import { logger } from '../observability/logger';
+
+export type PriorityFeeMode = 'fixed' | 'auto';
+
+export interface ExecutionSettings {
+  priorityFeeMode: PriorityFeeMode;
+  priorityFeeMicroLamports: number;
+  priorityFeePercentile: number;
+  maxPriorityFeeMicroLamports: number;
+  computeUnitLimit: number;
+  maxSendAttempts: number;
+  simulate: boolean;
+}
+
+export const DEFAULT_EXECUTION_SETTINGS: ExecutionSettings = {
+  priorityFeeMode: 'fixed',
+  priorityFeeMicroLamports: 0,
+  priorityFeePercentile: 75,
+  maxPriorityFeeMicroLamports: 1_000_000,
+  computeUnitLimit: 200_000,
+  maxSendAttempts: 3,
+  simulate: true,
+};
+
+export interface SendOptions {
+  label: string;
+  leaderSlot?: number;
+  signers?: Keypair[];
+}
+
+export interface SendResult {
+  signature: string;
+  status: 'confirmed' | 'failed';
+  slot?: number;
+  slotLatency?: number;
+  confirmMs: number;
+  attempts: number;
+  priorityFee: number;
+}
+
+export class TransactionSender {
+  private connection: Connection;
+  private payer: WalletSigner;
+  private settings: ExecutionSettings;
+
+  constructor(connection: Connection, payer: WalletSigner, settings: ExecutionSettings) {
+    this.connection = connection;
+    this.payer = payer;
+    this.settings = settings;
+  }
+
+  async send(instructions: TransactionInstruction[], options: SendOptions): Promise<SendResult> {
+    const started = Date.now();
+    const priorityFee = await this.resolvePriorityFee(instructions);
+    const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units: this.settings.computeUnitLimit })];
+    if (priorityFee > 0) {
+      budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee }));
+    }
+
+    for (let attempt = 1; attempt <= this.settings.maxSendAttempts; attempt++) {
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+      const message = new TransactionMessage({
+        payerKey: this.payer.publicKey,
+        recentBlockhash: blockhash,
+        instructions: [...budget, ...instructions],
+      }).compileToV0Message();
+
+      const tx = new VersionedTransaction(message);
+      if (options.signers?.length) {
+        tx.sign(options.signers);
+      }
+      await this.payer.signTransaction(tx);
+
+      if (this.settings.simulate) {
+        const simulation = await this.connection.simulateTransaction(tx, { sigVerify: false });
+        if (simulation.value.err) {
+          const logs = (simulation.value.logs || []).slice(-5).join('\n      ');
+          throw new Error(`${options.label} simulation failed: ${JSON.stringify(simulation.value.err)}\n      ${logs}`);
+        }
+      }
+
+      const signature = await this.connection.sendRawTransaction(tx.serialize(), {
+        skipPreflight: this.settings.simulate,
+        maxRetries: 0,
+      });
+
+      try {
+        const confirmation = await this.connection.confirmTransaction(
+          { signature, blockhash, lastValidBlockHeight },
+          'confirmed'
+        );
+
+        const result = await this.buildResult(signature, options, started, attempt, priorityFee);
+
+        if (confirmation.value.err) {
+          logger.warn('Transaction failed on-chain', { label: options.label, signature, err: confirmation.value.err });
+          return { ...result, status: 'failed' };
+        }
+
+        logger.info('Transaction confirmed', {
+          label: options.label,
+          signature,
+          confirmMs: result.confirmMs,
+          slotLatency: result.slotLatency,
+          attempt,
+          priorityFee,
+        });
+        return result;
+      } catch (error) {
+        if (!(error instanceof TransactionExpiredBlockheightExceededError)) throw error;
+        logger.warn('Blockhash expired, retrying', { label: options.label, signature, attempt, maxAttempts: this.settings.maxSendAttempts });
+      }
+    }
+
+    throw new Error(`${options.label} not confirmed after ${this.settings.maxSendAttempts} attempts`);
+  }
+
+  private async resolvePriorityFee(instructions: TransactionInstruction[]): Promise<number> {
+    if (this.settings.priorityFeeMode === 'fixed') {
+      return this.settings.priorityFeeMicroLamports;
+    }
+
+    try {
+      const writable = new Map<string, PublicKey>();
+      for (const ix of instructions) {
+        for (const key of ix.keys) {
+          if (key.isWritable) writable.set(key.pubkey.toBase58(), key.pubkey);
+        }
+      }
+
+      const fees = (await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: [...writable.values()].slice(0, 128),
+      }))
+        .map(fee => fee.prioritizationFee)
+        .sort((a, b) => a - b);
+
+      if (fees.length === 0) return this.settings.priorityFeeMicroLamports;
+
+      const index = Math.min(fees.length - 1, Math.floor((this.settings.priorityFeePercentile / 100) * fees.length));
+      return Math.min(
+        Math.max(fees[index], this.settings.priorityFeeMicroLamports),
+        this.settings.maxPriorityFeeMicroLamports
+      );
+    } catch (error) {
+      logger.error('Error estimating priority fee', { error });
+      return this.settings.priorityFeeMicroLamports;
+    }
+  }
+
+  private async buildResult(
+    signature: string,
+    options: SendOptions,
+    started: number,
+    attempts: number,
+    priorityFee: number
+  ): Promise<SendResult> {
+    const { value } = await this.connection.getSignatureStatuses([signature]);
+    const slot = value[0]?.slot;
+
+    return {
+      signature,
+      status: 'confirmed',
+      slot,
+      slotLatency: slot !== undefined && options.leaderSlot !== undefined ? slot - options.leaderSlot : undefined,
+      confirmMs: Date.now() - started,
+      attempts,
+      priorityFee,
+    };
+  }
+}
@@ -1,39 +1,52 @@
-import { Connection, PublicKey, Keypair } from '@solana/web3.js';
+import { Connection, PublicKey } from '@solana/web3.js';
 import * as dotenv from 'dotenv';
 import { CopyTradingBot } from './bot';
 import { Config, BotConfig } from './config';
+import { loadWallet } from './wallet/wallet-provider';
+import { ConfigValidationError } from './config-schema';
+import { ControlApi, ControlServer } from './api/control-api';
+import { configureLogging, logger } from './observability/logger';
+import { MetricsServer } from './observability/metrics';
+import { instrumentedFetch, registry } from './observability/bot-metrics';
 
 dotenv.config();
 
 async function main() {
-  console.log('🚀 Starting Solana Prediction Market Copy Trading Bot...\n');
-
   const config = Config.load();
+  configureLogging(config.logging);
 
-  const connection = new Connection(
-    config.rpcUrl,
-    'confirmed'
-  );
-
-  let wallet: Keypair;
-  if (config.privateKey) {
-    const secretKey = Uint8Array.from(JSON.parse(config.privateKey));
-    wallet = Keypair.fromSecretKey(secretKey);
-  } else if (config.keypairPath) {
-    throw new Error('Keypair file loading not implemented yet');
-  } else {
-    throw new Error('No wallet configured. Set PRIVATE_KEY in .env');
-  }
+  logger.info('Starting Solana Prediction Market Copy Trading Bot');
+
+  const connection = new Connection(config.rpcUrl, {
+    commitment: 'confirmed',
+    wsEndpoint: config.wsUrl,
+    fetch: instrumentedFetch(),
+  });
+
+  const wallet = await loadWallet(config.wallet);
+
+  logger.info('Connected', { rpcUrl: config.rpcUrl, wallet: wallet.publicKey.toBase58(), walletKind: wallet.kind });
 
-  console.log(`📡 Connected to: ${config.rpcUrl}`);
-  console.log(`👛 Wallet: ${wallet.publicKey.toBase58()}\n`);
+  if (config.metrics.port !== undefined) {
+    await new MetricsServer(registry, config.metrics.port, config.metrics.host).start();
+  }
 
   const bot = new CopyTradingBot(connection, wallet, config);
   await bot.start();
+
+  const { port, host, token } = config.controlApi;
+  if (port !== undefined && token) {
+    await new ControlServer(new ControlApi(bot, token), port, host).start();
+  }
 }
 
 main().catch((error) => {
-  console.error('❌ Fatal error:', error);
+  if (error instanceof ConfigValidationError) {
+    logger.error(error.message);
+    process.exit(1);
+  }
+
+  logger.error('Fatal error', { error });
   process.exit(1);
 });
 
@@ -0,0 +1,48 @@
+import { Connection, PublicKey, Logs, Context } from '@solana/web3.js';
+import { logger } from '../observability/logger';
+
+export type LeaderActivityHandler = (leader: string, signature: string, slot: number) => void;
+
+export class LeaderLogsSubscription {
+  private connection: Connection;
+  private subscriptions: Map<string, number> = new Map();
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  subscribe(leader: string, onActivity: LeaderActivityHandler): void {
+    if (this.subscriptions.has(leader)) return;
+
+    const subscriptionId = this.connection.onLogs(
+      new PublicKey(leader),
+      (logs: Logs, ctx: Context) => {
+        if (logs.err) return;
+        onActivity(leader, logs.signature, ctx.slot);
+      },
+      'confirmed'
+    );
+
+    this.subscriptions.set(leader, subscriptionId);
+    logger.info('Subscribed to leader logs', { leader });
+  }
+
+  async unsubscribe(leader: string): Promise<void> {
+    const subscriptionId = this.subscriptions.get(leader);
+    if (subscriptionId === undefined) return;
+
+    this.subscriptions.delete(leader);
+
+    try {
+      await this.connection.removeOnLogsListener(subscriptionId);
+    } catch (error) {
+      logger.error('Error unsubscribing leader logs', { leader, error });
+    }
+  }
+
+  async unsubscribeAll(): Promise<void> {
+    for (const leader of [...this.subscriptions.keys()]) {
+      await this.unsubscribe(leader);
+    }
+  }
+}
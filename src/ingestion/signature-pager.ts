@@ -0,0 +1,51 @@
+import { Connection, PublicKey, ConfirmedSignatureInfo } from '@solana/web3.js';
+import { logger } from '../observability/logger';
+
+export interface SignaturePageOptions {
+  until: string;
+  pageSize?: number;
+  maxPages?: number;
+}
+
+// The newest signature becomes the resume point for a leader seen for the first time, so
+// nothing they did before we started following them is copied.
+export async function fetchLatestSignature(
+  connection: Connection,
+  address: PublicKey
+): Promise<ConfirmedSignatureInfo | null> {
+  const [latest] = await connection.getSignaturesForAddress(address, { limit: 1 });
+  return latest || null;
+}
+
+export async function fetchNewSignatures(
+  connection: Connection,
+  address: PublicKey,
+  options: SignaturePageOptions
+): Promise<ConfirmedSignatureInfo[]> {
+  const { until, pageSize = 100, maxPages = 50 } = options;
+
+  const collected: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const batch = await connection.getSignaturesForAddress(address, {
+      limit: pageSize,
+      before,
+      until,
+    });
+
+    collected.push(...batch);
+
+    if (batch.length < pageSize) {
+      return collected.reverse();
+    }
+
+    before = batch[batch.length - 1].signature;
+  }
+
+  logger.warn('Signature gap exceeds page limit, oldest ones were not fetched', {
+    leader: address.toBase58(),
+    limit: maxPages * pageSize,
+  });
+  return collected.reverse();
+}
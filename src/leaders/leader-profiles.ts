@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import { SizingStrategy } from '../sizing/position-sizer';
+
+export interface LeaderProfile {
+  address: string;
+  label?: string;
+  enabled: boolean;
+  sizingStrategy?: SizingStrategy;
+  copyMultiplier?: number;
+  fixedStake?: number;
+  kellyEdge?: number;
+  maxStake?: number;
+  dailyBudget?: number;
+  allowedMarkets?: string[];
+  blockedMarkets?: string[];
+  allowedEventCategories?: string[];
+  blockedEventCategories?: string[];
+  consensusWeight?: number;
+  fade?: boolean;
+  fadeMultiplier?: number;
+  maxFadeLiability?: number;
+}
+
+export interface LeaderProfilesFile {
+  profiles: LeaderProfile[];
+  problems: string[];
+}
+
+// Collects every problem in the file instead of stopping at the first, so config validation can report them together.
+export function readLeaderProfiles(filePath: string): LeaderProfilesFile {
+  if (!fs.existsSync(filePath)) {
+    return { profiles: [], problems: [] };
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    return { profiles: [], problems: [`Leader profiles file ${filePath} could not be parsed: ${(error as Error).message}`] };
+  }
+
+  const entries: unknown = Array.isArray(raw) ? raw : raw?.leaders || [];
+  if (!Array.isArray(entries)) {
+    return { profiles: [], problems: [`Leader profiles file ${filePath} must hold an array or a "leaders" array`] };
+  }
+
+  const profiles: LeaderProfile[] = [];
+  const problems: string[] = [];
+
+  entries.forEach((entry, index) => {
+    if (!entry || typeof entry.address !== 'string' || !entry.address) {
+      problems.push(`Leader profile #${index} in ${filePath} is missing an address`);
+      return;
+    }
+
+    profiles.push({
+      ...entry,
+      enabled: entry.enabled !== false,
+    } as LeaderProfile);
+  });
+
+  return { profiles, problems };
+}
+
+export function loadLeaderProfiles(filePath: string): LeaderProfile[] {
+  const { profiles, problems } = readLeaderProfiles(filePath);
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+  return profiles;
+}
+
+export function saveLeaderProfiles(filePath: string, profiles: LeaderProfile[]): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify({ leaders: profiles }, null, 2) + '\n', 'utf8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+export function checkLeaderMarket(
+  profile: LeaderProfile,
+  marketAddress: string,
+  eventCategory?: string | null
+): string | null {
+  if (profile.blockedMarkets?.includes(marketAddress)) {
+    return 'market is blocked for this leader';
+  }
+
+  if (profile.allowedMarkets?.length && !profile.allowedMarkets.includes(marketAddress)) {
+    return 'market is not in the allowed list for this leader';
+  }
+
+  if (eventCategory && profile.blockedEventCategories?.includes(eventCategory)) {
+    return `event category "${eventCategory}" is blocked for this leader`;
+  }
+
+  if (profile.allowedEventCategories?.length
+    && (!eventCategory || !profile.allowedEventCategories.includes(eventCategory))) {
+    return `event category "${eventCategory ?? 'unknown'}" is not allowed for this leader`;
+  }
+
+  return null;
+}
+
+export class LeaderProfileRegistry {
+  private profiles: Map<string, LeaderProfile> = new Map();
+
+  constructor(profiles: LeaderProfile[] = []) {
+    this.replaceAll(profiles);
+  }
+
+  replaceAll(profiles: LeaderProfile[]): void {
+    this.profiles = new Map(profiles.map(profile => [profile.address, profile]));
+  }
+
+  get(address: string): LeaderProfile {
+    return this.profiles.get(address) || { address, enabled: true };
+  }
+
+  set(profile: LeaderProfile): void {
+    this.profiles.set(profile.address, profile);
+  }
+
+  getAll(): LeaderProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  needsEventCategory(address: string): boolean {
+    const profile = this.get(address);
+    return Boolean(profile.allowedEventCategories?.length || profile.blockedEventCategories?.length);
+  }
+}
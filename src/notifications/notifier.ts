@@ -0,0 +1,139 @@
+import { logger } from '../observability/logger';
+import type { SmtpSettings } from './smtp-client';
+
+export type NotificationEvent = 'copied' | 'order_failed' | 'daily_loss_limit' | 'market_settled' | 'position_stuck';
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  'copied',
+  'order_failed',
+  'daily_loss_limit',
+  'market_settled',
+  'position_stuck',
+];
+
+export function isNotificationEvent(value: string): value is NotificationEvent {
+  return (NOTIFICATION_EVENTS as string[]).includes(value);
+}
+
+export interface Notification {
+  event: NotificationEvent;
+  title: string;
+  message: string;
+  fields: Record<string, string | number | boolean | undefined>;
+  timestamp: string;
+}
+
+export interface NotificationSink {
+  readonly name: string;
+  send(notification: Notification): Promise<void>;
+}
+
+export interface RateLimitSettings {
+  max: number;
+  windowMs: number;
+}
+
+export interface NotificationSettings {
+  events: NotificationEvent[];
+  rateLimit: RateLimitSettings;
+  webhook?: { url: string; events?: NotificationEvent[] };
+  telegram?: { botToken: string; chatId: string; apiUrl?: string; events?: NotificationEvent[] };
+  discord?: { webhookUrl: string; events?: NotificationEvent[] };
+  email?: { smtp: SmtpSettings; from: string; to: string[]; events?: NotificationEvent[] };
+}
+
+export interface SinkRegistration {
+  sink: NotificationSink;
+  events?: NotificationEvent[];
+}
+
+export function formatNotificationText(notification: Notification): string {
+  const details = Object.entries(notification.fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${value}`);
+
+  return [notification.title, notification.message, ...details].filter(Boolean).join('\n');
+}
+
+class RateLimiter {
+  private settings: RateLimitSettings;
+  private sent: Map<string, number[]> = new Map();
+  private suppressed: Map<string, number> = new Map();
+
+  constructor(settings: RateLimitSettings) {
+    this.settings = settings;
+  }
+
+  // Returns how many notifications were dropped since the last one let through, or null to drop this one.
+  take(key: string, now: number): number | null {
+    const recent = (this.sent.get(key) || []).filter(time => now - time < this.settings.windowMs);
+
+    if (recent.length >= this.settings.max) {
+      this.sent.set(key, recent);
+      this.suppressed.set(key, (this.suppressed.get(key) || 0) + 1);
+      return null;
+    }
+
+    recent.push(now);
+    this.sent.set(key, recent);
+
+    const dropped = this.suppressed.get(key) || 0;
+    this.suppressed.delete(key);
+    return dropped;
+  }
+}
+
+export class Notifier {
+  private sinks: SinkRegistration[];
+  private events: NotificationEvent[];
+  private limiter: RateLimiter;
+
+  constructor(sinks: SinkRegistration[], events: NotificationEvent[], rateLimit: RateLimitSettings) {
+    this.sinks = sinks;
+    this.events = events;
+    this.limiter = new RateLimiter(rateLimit);
+  }
+
+  get enabled(): boolean {
+    return this.sinks.length > 0;
+  }
+
+  // Never throws: a failing sink is logged and must not interrupt trading.
+  async notify(
+    event: NotificationEvent,
+    title: string,
+    message: string,
+    fields: Notification['fields'] = {}
+  ): Promise<void> {
+    if (!this.events.includes(event)) return;
+
+    const now = Date.now();
+    const notification: Notification = {
+      event,
+      title,
+      message,
+      fields,
+      timestamp: new Date(now).toISOString(),
+    };
+
+    await Promise.all(this.sinks.map(async ({ sink, events }) => {
+      if (events && !events.includes(event)) return;
+
+      const dropped = this.limiter.take(`${sink.name}:${event}`, now);
+      if (dropped === null) {
+        logger.debug('Notification rate limited', { sink: sink.name, event });
+        return;
+      }
+
+      const outgoing = dropped > 0
+        ? { ...notification, fields: { ...fields, suppressed: dropped } }
+        : notification;
+
+      try {
+        await sink.send(outgoing);
+      } catch (error) {
+        logger.error('Error sending notification', { sink: sink.name, event, error });
+      }
+    }));
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  Notification,
+  NotificationSettings,
+  NotificationSink,
+  Notifier,
+  SinkRegistration,
+  formatNotificationText,
+} from './notifier';
+import { SmtpClient, SmtpSettings } from './smtp-client';
+
+const SINK_TIMEOUT_MS = 10_000;
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SINK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${new URL(url).host} returned ${response.status}: ${await response.text()}`);
+  }
+}
+
+export class WebhookSink implements NotificationSink {
+  readonly name = 'webhook';
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor(url: string, headers: Record<string, string> = {}) {
+    this.url = url;
+    this.headers = headers;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await postJson(this.url, notification, this.headers);
+  }
+}
+
+export class TelegramSink implements NotificationSink {
+  readonly name = 'telegram';
+  private botToken: string;
+  private chatId: string;
+  private apiUrl: string;
+
+  constructor(botToken: string, chatId: string, apiUrl: string = 'https://api.telegram.org') {
+    this.botToken = botToken;
+    this.chatId = chatId;
+    this.apiUrl = apiUrl.replace(/\/$/, '');
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await postJson(`${this.apiUrl}/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: formatNotificationText(notification),
+      disable_web_page_preview: true,
+    });
+  }
+}
+
+export class DiscordSink implements NotificationSink {
+  readonly name = 'discord';
+  private webhookUrl: string;
+
+  constructor(webhookUrl: string) {
+    this.webhookUrl = webhookUrl;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const fields = Object.entries(notification.fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => ({ name, value: String(value), inline: true }));
+
+    await postJson(this.webhookUrl, {
+      embeds: [{
+        title: notification.title,
+        description: notification.message,
+        fields: fields.slice(0, 25),
+        timestamp: notification.timestamp,
+      }],
+    });
+  }
+}
+
+export class EmailSink implements NotificationSink {
+  readonly name = 'email';
+  private client: SmtpClient;
+  private from: string;
+  private to: string[];
+
+  constructor(settings: SmtpSettings, from: string, to: string[]) {
+    this.client = new SmtpClient(settings);
+    this.from = from;
+    this.to = to;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await this.client.sendMail({
+      from: this.from,
+      to: this.to,
+      subject: `[copy bot] ${notification.title}`,
+      text: formatNotificationText(notification),
+    });
+  }
+}
+
+export function createNotifier(settings: NotificationSettings): Notifier {
+  const sinks: SinkRegistration[] = [];
+
+  if (settings.webhook) {
+    sinks.push({ sink: new WebhookSink(settings.webhook.url), events: settings.webhook.events });
+  }
+  if (settings.telegram) {
+    const { botToken, chatId, apiUrl, events } = settings.telegram;
+    sinks.push({ sink: new TelegramSink(botToken, chatId, apiUrl), events });
+  }
+  if (settings.discord) {
+    sinks.push({ sink: new DiscordSink(settings.discord.webhookUrl), events: settings.discord.events });
+  }
+  if (settings.email) {
+    const { smtp, from, to, events } = settings.email;
+    sinks.push({ sink: new EmailSink(smtp, from, to), events });
+  }
+
+  return new Notifier(sinks, settings.events, settings.rateLimit);
+}
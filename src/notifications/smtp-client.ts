@@ -0,0 +1,221 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+function envelopeAddress(address: string): string {
+  const match = /<([^>]+)>/.exec(address);
+  return (match ? match[1] : address).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+export function buildMessage(message: MailMessage, now: Date = new Date()): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+
+  const body = message.text
+    .split(/\r?\n/)
+    .map(line => line.startsWith('.') ? `.${line}` : line);
+
+  return [...headers, '', ...body].join('\r\n');
+}
+
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  static open(settings: SmtpSettings): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = settings.secure
+        ? tls.connect({ host: settings.host, port: settings.port, servername: settings.host })
+        : net.connect({ host: settings.host, port: settings.port });
+
+      socket.setTimeout(settings.timeoutMs ?? 10_000, () => socket.destroy(new Error('SMTP connection timed out')));
+      socket.once('error', reject);
+      socket.once(settings.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpSession(socket));
+      });
+    });
+  }
+
+  get encrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host });
+      secure.once('error', reject);
+      secure.once('secureConnect', () => {
+        secure.off('error', reject);
+        resolve(secure);
+      });
+    });
+    this.attach(this.socket);
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.takeReply();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async expect(codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP server replied ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      const parts = this.buffer.split('\r\n');
+      this.buffer = parts.pop() || '';
+      this.lines.push(...parts);
+      this.deliver();
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  // A reply is complete once a line has a space (not a dash) after the status code.
+  private takeReply(): SmtpReply | null {
+    const last = this.lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+    if (last === -1) return null;
+
+    const lines = this.lines.splice(0, last + 1);
+    return {
+      code: parseInt(lines[last].slice(0, 3), 10),
+      text: lines.map(line => line.slice(4)).join('\n'),
+    };
+  }
+
+  private deliver(): void {
+    if (!this.waiting) return;
+
+    const reply = this.takeReply();
+    if (!reply) return;
+
+    const { resolve } = this.waiting;
+    this.waiting = undefined;
+    resolve(reply);
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (!this.waiting) return;
+
+    const { reject } = this.waiting;
+    this.waiting = undefined;
+    reject(error);
+  }
+}
+
+export class SmtpClient {
+  private settings: SmtpSettings;
+
+  constructor(settings: SmtpSettings) {
+    this.settings = settings;
+  }
+
+  async sendMail(message: MailMessage): Promise<void> {
+    const session = await SmtpSession.open(this.settings);
+
+    try {
+      await session.expect([220]);
+      const hello = `EHLO ${os.hostname()}`;
+      let capabilities = await session.command(hello, [250]);
+
+      if (!session.encrypted && /^STARTTLS\b/im.test(capabilities.text)) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade(this.settings.host);
+        capabilities = await session.command(hello, [250]);
+      }
+
+      if (this.settings.user) {
+        if (!session.encrypted && !LOOPBACK_HOSTS.includes(this.settings.host)) {
+          throw new Error(`Refusing to send SMTP credentials to ${this.settings.host} without TLS`);
+        }
+
+        const credentials = Buffer.from(`\0${this.settings.user}\0${this.settings.pass || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${envelopeAddress(message.from)}>`, [250]);
+      for (const recipient of message.to) {
+        await session.command(`RCPT TO:<${envelopeAddress(recipient)}>`, [250, 251]);
+      }
+
+      await session.command('DATA', [354]);
+      await session.command(`${buildMessage(message)}\r\n.`, [250]);
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
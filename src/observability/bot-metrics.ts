@@ -0,0 +1,95 @@
+import { MetricsRegistry } from './metrics';
+
+export const registry = new MetricsRegistry();
+
+export const botMetrics = {
+  transactionsObserved: registry.counter(
+    'copybot_leader_transactions_total',
+    'Leader transactions observed, by leader'
+  ),
+  decisions: registry.counter(
+    'copybot_copy_decisions_total',
+    'Copy decisions by decision, action and normalized reason'
+  ),
+  copyLatency: registry.histogram(
+    'copybot_copy_latency_seconds',
+    'Seconds from the leader transaction block time to our confirmed copy',
+    [0.5, 1, 2, 3, 5, 10, 20, 30, 60, 120]
+  ),
+  copySlotLatency: registry.histogram(
+    'copybot_copy_slot_latency',
+    'Slots between the leader transaction and our confirmed copy',
+    [0, 1, 2, 4, 8, 16, 32, 64, 150]
+  ),
+  rpcErrors: registry.counter(
+    'copybot_rpc_errors_total',
+    'Failed RPC requests by method and kind (network, HTTP status or JSON-RPC error code)'
+  ),
+  openExposure: registry.gauge(
+    'copybot_open_exposure',
+    'Sum of worst-case loss across all open positions'
+  ),
+  openMarkets: registry.gauge(
+    'copybot_open_markets',
+    'Number of markets with open exposure'
+  ),
+  dailyPnl: registry.gauge(
+    'copybot_daily_pnl',
+    'Profit and loss for the current trading day, by component'
+  ),
+  tradingHalted: registry.gauge(
+    'copybot_trading_halted',
+    '1 while the daily loss limit has halted copying'
+  ),
+};
+
+// Reasons embed amounts, durations and addresses; strip them so label cardinality stays bounded.
+export function reasonLabel(decision: string, reason?: string): string {
+  if (!reason) return 'none';
+  if (decision === 'failed') return 'error';
+
+  return reason
+    .replace(/[1-9A-HJ-NP-Za-km-z]{32,44}/g, '<address>')
+    .replace(/-?\d+(\.\d+)?/g, 'N')
+    .slice(0, 80);
+}
+
+function rpcMethod(init?: RequestInit): string {
+  try {
+    const body = JSON.parse(String(init?.body));
+    return Array.isArray(body) ? 'batch' : String(body.method || 'unknown');
+  } catch {
+    return 'unknown';
+  }
+}
+
+// Most RPC failures come back as HTTP 200 with a JSON-RPC error object in the body.
+async function rpcErrorCodes(response: Response): Promise<string[]> {
+  try {
+    const body = await response.clone().json();
+    return (Array.isArray(body) ? body : [body])
+      .filter(item => item && typeof item === 'object' && item.error)
+      .map(item => `rpc_${item.error.code ?? 'unknown'}`);
+  } catch {
+    return [];
+  }
+}
+
+export function instrumentedFetch(fetchImpl: typeof fetch = fetch): typeof fetch {
+  return async (input, init) => {
+    try {
+      const response = await fetchImpl(input, init);
+      if (!response.ok) {
+        botMetrics.rpcErrors.inc({ method: rpcMethod(init), kind: String(response.status) });
+      } else {
+        for (const kind of await rpcErrorCodes(response)) {
+          botMetrics.rpcErrors.inc({ method: rpcMethod(init), kind });
+        }
+      }
+      return response;
+    } catch (error) {
+      botMetrics.rpcErrors.inc({ method: rpcMethod(init), kind: 'network' });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,120 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'pretty' | 'json';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_FORMATS: LogFormat[] = ['pretty', 'json'];
+
+export interface LoggingSettings {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+export interface LogFields {
+  leader?: string;
+  market?: string;
+  signature?: string;
+  decision?: string;
+  [key: string]: unknown;
+}
+
+let settings: LoggingSettings = { level: 'info', format: 'pretty' };
+
+export function configureLogging(next: LoggingSettings): void {
+  settings = { ...next };
+}
+
+// Matches PublicKey without importing it, so keys from a second copy of web3.js serialize too.
+function isBase58Key(value: unknown): value is { toBase58(): string } {
+  return typeof value === 'object' && value !== null && typeof (value as { toBase58?: unknown }).toBase58 === 'function';
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { message: value.message, name: value.name, stack: value.stack };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (isBase58Key(value)) {
+    return value.toBase58();
+  }
+  return value;
+}
+
+function formatJson(level: LogLevel, message: string, fields: LogFields): string {
+  const record: Record<string, unknown> = { time: new Date().toISOString(), level, msg: message };
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) record[key] = serialize(value);
+  }
+
+  return JSON.stringify(record, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+}
+
+function formatPretty(level: LogLevel, message: string, fields: LogFields): string {
+  const time = new Date().toISOString().slice(11, 23);
+  let line = `${time} ${level.toUpperCase().padEnd(5)} ${message}`;
+  let stack = '';
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+
+    if (value instanceof Error) {
+      line += ` ${key}="${value.message}"`;
+      if (value.stack) stack = `\n${value.stack}`;
+      continue;
+    }
+
+    const serialized = serialize(value);
+    const text = typeof serialized === 'string' ? serialized : JSON.stringify(serialized);
+    line += ` ${key}=${/\s/.test(text) ? JSON.stringify(text) : text}`;
+  }
+
+  return line + stack;
+}
+
+export class Logger {
+  private fields: LogFields;
+
+  constructor(fields: LogFields = {}) {
+    this.fields = fields;
+  }
+
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(settings.level);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) return;
+
+    const merged = { ...this.fields, ...fields };
+    const line = settings.format === 'json'
+      ? formatJson(level, message, merged)
+      : formatPretty(level, message, merged);
+
+    const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+    stream.write(line + '\n');
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,206 @@
+import * as http from 'http';
+import { logger } from './logger';
+
+export type Labels = Record<string, string>;
+
+export interface MetricsSettings {
+  port?: number;
+  host: string;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return '';
+
+  const escaped = entries.map(([key, value]) =>
+    `${key}="${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${escaped.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+
+  protected abstract samples(): string[];
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value || 0;
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(({ labels, value }) =>
+      `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.values.get(labelKey(labels))?.value;
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(({ labels, value }) =>
+      `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private buckets: number[];
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    const entry = this.series.get(key) || {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: formatValue(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return [...this.metrics.values()].flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export class MetricsServer {
+  private registry: MetricsRegistry;
+  private port: number;
+  private host: string;
+  private server?: http.Server;
+
+  constructor(registry: MetricsRegistry, port: number, host: string) {
+    this.registry = registry;
+    this.port = port;
+    this.host = host;
+  }
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      if (url.pathname !== '/metrics') {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('not found\n');
+        return;
+      }
+
+      if (req.method !== 'GET') {
+        res.writeHead(405, { 'Content-Type': 'text/plain', Allow: 'GET' });
+        res.end('method not allowed\n');
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(this.registry.render());
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, this.host, () => resolve());
+    });
+
+    logger.info('Metrics endpoint listening', { url: `http://${this.host}:${this.port}/metrics` });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+}
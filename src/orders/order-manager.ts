@@ -0,0 +1,285 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { MonacoOutcomeLadder, MonacoProtocolIntegration, PlacedOrder } from '../prediction-markets/monaco-protocol';
+import { MonacoMarketPriceService } from '../prediction-markets/monaco-market-prices';
+import { applySlippage, SlippageSettings } from '../prediction-markets/monaco-price-ladder';
+import { logger } from '../observability/logger';
+
+export type TrackedOrderStatus = 'pending' | 'open' | 'matched' | 'cancelled' | 'failed';
+export type UnmatchedAction = 'cancel' | 'reprice';
+export type ExpiryReason = 'timeout' | 'market lock';
+
+export interface TrackedOrder {
+  orderPk: string;
+  signature: string;
+  marketPk: string;
+  outcomeIndex: number;
+  orderType: 'back' | 'lay';
+  stake: number;
+  price: number;
+  originalPrice: number;
+  matchedStake: number;
+  unmatchedStake: number;
+  cancelledStake: number;
+  status: TrackedOrderStatus;
+  reprices: number;
+  replacedBy?: string;
+  marketLockTimestamp?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrderLifecycleSettings {
+  timeoutMs: number;
+  cancelBeforeLockSeconds: number;
+  unmatchedAction: UnmatchedAction;
+  repriceSlippage: SlippageSettings;
+  maxReprices: number;
+}
+
+export interface OrderReplacement {
+  previousOrderPk: string;
+  order: PlacedOrder;
+}
+
+const CONFIRMATION_TIMEOUT_MS = 120_000;
+
+export function unmatchedExpiry(
+  order: Pick<TrackedOrder, 'createdAt' | 'marketLockTimestamp'>,
+  settings: OrderLifecycleSettings,
+  now: number
+): ExpiryReason | null {
+  if (order.marketLockTimestamp
+    && now / 1000 >= order.marketLockTimestamp - settings.cancelBeforeLockSeconds) {
+    return 'market lock';
+  }
+
+  if (now - new Date(order.createdAt).getTime() >= settings.timeoutMs) {
+    return 'timeout';
+  }
+
+  return null;
+}
+
+export function repricePrice(
+  order: Pick<TrackedOrder, 'orderType' | 'originalPrice'>,
+  ladder: MonacoOutcomeLadder | undefined,
+  slippage: SlippageSettings
+): number | null {
+  const best = order.orderType === 'back' ? ladder?.backs[0] : ladder?.lays[0];
+  const bound = applySlippage(order.originalPrice, order.orderType, slippage);
+  if (!best || !bound) return null;
+
+  const acceptable = order.orderType === 'back' ? best.price >= bound : best.price <= bound;
+  return acceptable ? best.price : null;
+}
+
+export class OrderManager {
+  private connection: Connection;
+  private monaco: MonacoProtocolIntegration;
+  private prices: MonacoMarketPriceService;
+  private statePath: string;
+  private settings: OrderLifecycleSettings;
+  private orders: Map<string, TrackedOrder> = new Map();
+
+  constructor(
+    connection: Connection,
+    monaco: MonacoProtocolIntegration,
+    prices: MonacoMarketPriceService,
+    statePath: string,
+    settings: OrderLifecycleSettings
+  ) {
+    this.connection = connection;
+    this.monaco = monaco;
+    this.prices = prices;
+    this.statePath = statePath;
+    this.settings = settings;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const contents = await fs.readFile(this.statePath, 'utf8');
+      const orders: TrackedOrder[] = JSON.parse(contents);
+      this.orders = new Map(orders.map(order => [order.orderPk, order]));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  async track(
+    placed: PlacedOrder,
+    details: { marketPk: PublicKey; outcomeIndex: number; orderType: 'back' | 'lay'; stake: number; price: number },
+    previous?: TrackedOrder
+  ): Promise<TrackedOrder> {
+    const market = previous ? null : await this.monaco.getMarket(details.marketPk);
+    const now = new Date().toISOString();
+
+    const order: TrackedOrder = {
+      orderPk: placed.orderPk.toBase58(),
+      signature: placed.signature,
+      marketPk: details.marketPk.toBase58(),
+      outcomeIndex: details.outcomeIndex,
+      orderType: details.orderType,
+      stake: details.stake,
+      price: details.price,
+      originalPrice: previous ? previous.originalPrice : details.price,
+      matchedStake: placed.matchedStake || 0,
+      unmatchedStake: details.stake - (placed.matchedStake || 0),
+      cancelledStake: 0,
+      status: placed.confirmation?.status === 'confirmed' ? 'open' : 'pending',
+      reprices: previous ? previous.reprices + 1 : 0,
+      marketLockTimestamp: previous ? previous.marketLockTimestamp : market?.marketLockTimestamp,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.orders.set(order.orderPk, order);
+    await this.save();
+    return order;
+  }
+
+  getOpenOrders(): TrackedOrder[] {
+    return [...this.orders.values()].filter(order => order.status === 'pending' || order.status === 'open');
+  }
+
+  getOrder(orderPk: string): TrackedOrder | undefined {
+    return this.orders.get(orderPk);
+  }
+
+  async markCancelled(orderPk: string): Promise<void> {
+    const order = this.orders.get(orderPk);
+    if (!order || (order.status !== 'pending' && order.status !== 'open')) return;
+
+    order.cancelledStake += order.unmatchedStake;
+    order.unmatchedStake = 0;
+    order.status = 'cancelled';
+    order.updatedAt = new Date().toISOString();
+    await this.save();
+  }
+
+  async refresh(now: number = Date.now()): Promise<OrderReplacement[]> {
+    const replacements: OrderReplacement[] = [];
+    const open = this.getOpenOrders();
+    if (open.length === 0) return replacements;
+
+    await this.confirmPending(open.filter(order => order.status === 'pending'), now);
+
+    for (const order of open) {
+      if (order.status !== 'open') continue;
+
+      try {
+        await this.syncOrderAccount(order);
+
+        if (order.status !== 'open' || order.unmatchedStake <= 0) continue;
+
+        const reason = unmatchedExpiry(order, this.settings, now);
+        if (!reason) continue;
+
+        const replacement = await this.handleExpired(order, reason);
+        if (replacement) {
+          replacements.push(replacement);
+        }
+      } catch (error) {
+        logger.error('Error managing order', { order: order.orderPk, error });
+      }
+    }
+
+    await this.save();
+    return replacements;
+  }
+
+  private async confirmPending(pending: TrackedOrder[], now: number): Promise<void> {
+    if (pending.length === 0) return;
+
+    const { value } = await this.connection.getSignatureStatuses(
+      pending.map(order => order.signature),
+      { searchTransactionHistory: true }
+    );
+
+    pending.forEach((order, i) => {
+      const status = value[i];
+
+      if (status?.err) {
+        logger.warn('Order failed on-chain', { order: order.orderPk, err: status.err });
+        order.status = 'failed';
+        order.unmatchedStake = 0;
+      } else if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+        order.status = 'open';
+      } else if (!status && now - new Date(order.createdAt).getTime() > CONFIRMATION_TIMEOUT_MS) {
+        logger.warn('Order was never confirmed, dropping it', { order: order.orderPk });
+        order.status = 'failed';
+        order.unmatchedStake = 0;
+      } else {
+        return;
+      }
+
+      order.updatedAt = new Date(now).toISOString();
+    });
+  }
+
+  private async syncOrderAccount(order: TrackedOrder): Promise<void> {
+    const account = await this.monaco.getOrder(new PublicKey(order.orderPk));
+    if (!account) return;
+
+    order.cancelledStake = account.voidedStake;
+    order.unmatchedStake = account.status === 'open' ? account.stakeUnmatched : 0;
+    order.matchedStake = account.stake - account.stakeUnmatched - account.voidedStake;
+
+    if (account.status === 'cancelled' || account.status === 'voided') {
+      order.cancelledStake += account.stakeUnmatched;
+      order.status = 'cancelled';
+    } else if (account.status !== 'open' || account.stakeUnmatched <= 0) {
+      order.status = 'matched';
+    }
+
+    order.updatedAt = new Date().toISOString();
+  }
+
+  private async handleExpired(order: TrackedOrder, reason: ExpiryReason): Promise<OrderReplacement | null> {
+    const remaining = order.unmatchedStake;
+    let newPrice: number | null = null;
+
+    if (reason === 'timeout'
+      && this.settings.unmatchedAction === 'reprice'
+      && order.reprices < this.settings.maxReprices) {
+      const ladder = await this.prices.getLadder(new PublicKey(order.marketPk));
+      newPrice = repricePrice(
+        order,
+        ladder?.find(o => o.outcomeIndex === order.outcomeIndex),
+        this.settings.repriceSlippage
+      );
+    }
+
+    logger.info('Cancelling unmatched stake', { order: order.orderPk, market: order.marketPk, remaining, reason });
+    await this.monaco.cancelOrder(new PublicKey(order.orderPk));
+    await this.markCancelled(order.orderPk);
+
+    if (!newPrice) return null;
+
+    const marketPk = new PublicKey(order.marketPk);
+    const placed = order.orderType === 'back'
+      ? await this.monaco.placeBackOrder(marketPk, order.outcomeIndex, remaining, newPrice)
+      : await this.monaco.placeLayOrder(marketPk, order.outcomeIndex, remaining, newPrice);
+
+    const replacement = await this.track(placed, {
+      marketPk,
+      outcomeIndex: order.outcomeIndex,
+      orderType: order.orderType,
+      stake: remaining,
+      price: newPrice,
+    }, order);
+
+    order.replacedBy = replacement.orderPk;
+    logger.info('Repriced order', { order: order.orderPk, replacement: replacement.orderPk, market: order.marketPk, price: newPrice });
+
+    return { previousOrderPk: order.orderPk, order: placed };
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    const tmpPath = `${this.statePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify([...this.orders.values()], null, 2), 'utf8');
+    await fs.rename(tmpPath, this.statePath);
+  }
+}
@@ -0,0 +1,158 @@
+import { PublicKey } from '@solana/web3.js';
+import type { CopyResult, ParsedTrade } from '../bot';
+import { TradeExecutor } from '../execution/trade-executor';
+import { PlacedOrder } from '../prediction-markets/monaco-protocol';
+import { OrderLink, OrderLinkStore } from '../storage/order-links';
+import { applySlippage, SlippageSettings } from '../prediction-markets/monaco-price-ladder';
+import { logger } from '../observability/logger';
+
+export class OrderMirror {
+  private positionManager: TradeExecutor;
+  private owner: PublicKey;
+  private links: OrderLinkStore;
+  private slippage: SlippageSettings;
+
+  constructor(
+    positionManager: TradeExecutor,
+    owner: PublicKey,
+    links: OrderLinkStore,
+    slippage: SlippageSettings
+  ) {
+    this.positionManager = positionManager;
+    this.owner = owner;
+    this.links = links;
+    this.slippage = slippage;
+  }
+
+  async recordCopy(leader: string, trade: ParsedTrade, placed: PlacedOrder, stake: number): Promise<void> {
+    if (!trade.orderPk) return;
+
+    await this.links.upsert({
+      leader,
+      leaderOrderPk: trade.orderPk.toBase58(),
+      marketPk: trade.marketAddress.toBase58(),
+      outcomeIndex: trade.outcomeIndex,
+      orderType: trade.orderType,
+      leaderStake: trade.amount,
+      ourOrderPk: placed.orderPk.toBase58(),
+      ourSignature: placed.signature,
+      ourStake: stake,
+      price: trade.price,
+      status: 'open',
+      closedFraction: 0,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async mirrorCancel(leader: string, leaderOrderPk: PublicKey): Promise<CopyResult> {
+    const link = this.links.getByLeaderOrder(leaderOrderPk.toBase58());
+
+    if (!link || link.leader !== leader) {
+      return { decision: 'ignored', action: 'cancel', reason: 'no linked copy order' };
+    }
+
+    if (link.status !== 'open') {
+      return { decision: 'ignored', action: 'cancel', reason: `linked order already ${link.status}` };
+    }
+
+    // The order manager may already have cancelled or filled our copy on its own.
+    const order = this.positionManager.getOrder(link.ourOrderPk);
+    if (order && order.status !== 'open' && order.status !== 'pending') {
+      await this.closeCancelledLink(link);
+      return { decision: 'ignored', action: 'cancel', reason: `copy order already ${order.status}` };
+    }
+
+    logger.info('Mirroring leader cancel', { leader: link.leader, leaderOrder: link.leaderOrderPk, order: link.ourOrderPk });
+    const signature = await this.positionManager.cancelOrder(new PublicKey(link.ourOrderPk));
+    const cancelled = await this.closeCancelledLink(link);
+
+    return { decision: 'copied', action: 'cancel', amount: cancelled, signature };
+  }
+
+  // Stake of the copy that is matched and can only be closed by an exit, not a cancel.
+  matchedStake(link: OrderLink): number {
+    const order = this.positionManager.getOrder(link.ourOrderPk);
+    return (link.priorMatchedStake || 0) + (order ? order.matchedStake : link.ourStake);
+  }
+
+  // A partly matched copy stays open so the leader's later exit still closes the matched part.
+  private async closeCancelledLink(link: OrderLink): Promise<number> {
+    const matched = this.matchedStake(link);
+    await this.links.upsert({ ...link, status: matched > 0 ? 'open' : 'cancelled' });
+    return Math.max(0, link.ourStake - matched);
+  }
+
+  findExitLinks(leader: string, trade: ParsedTrade): OrderLink[] {
+    const marketPk = trade.marketAddress.toBase58();
+
+    return this.links.findOpen(link =>
+      link.leader === leader
+      && link.marketPk === marketPk
+      && link.outcomeIndex === trade.outcomeIndex
+      && link.orderType !== trade.orderType
+    );
+  }
+
+  async mirrorExit(leader: string, trade: ParsedTrade, entries: OrderLink[]): Promise<CopyResult> {
+    const leaderOpenStake = entries.reduce(
+      (sum, link) => sum + link.leaderStake * (1 - link.closedFraction),
+      0
+    );
+
+    if (leaderOpenStake <= 0) {
+      return { decision: 'ignored', action: 'exit', reason: 'leader position already closed' };
+    }
+
+    const limitPrice = applySlippage(trade.price, trade.orderType, this.slippage);
+    if (!trade.price || !limitPrice) {
+      return { decision: 'skipped', action: 'exit', reason: 'no exit price' };
+    }
+
+    const position = await this.positionManager.getMarketPosition(this.owner, trade.marketAddress);
+    const held = position?.outcomes.find(o => o.outcomeIndex === trade.outcomeIndex);
+    const gap = held ? held.profitIfWins - held.profitIfLoses : 0;
+
+    // A lay only closes a position that is long the outcome and a back one that is short it.
+    if (!held || Math.abs(gap) < 1e-9 || (gap > 0 ? 'lay' : 'back') !== trade.orderType) {
+      return { decision: 'skipped', action: 'exit', reason: 'no position held to exit' };
+    }
+
+    // Only what these links matched is ours to close; the rest of the market position may come
+    // from other leaders or manual trades. A matched back of S at p moves the win/lose gap by S * p,
+    // and so does a lay.
+    const linkedGap = entries.reduce(
+      (sum, link) => sum + this.matchedStake(link) * (link.price || limitPrice) * (1 - link.closedFraction),
+      0
+    );
+    if (linkedGap <= 0) {
+      return { decision: 'skipped', action: 'exit', reason: 'linked copy has no matched stake' };
+    }
+
+    // Closing all of it at limitPrice evens out the win and lose results, as in hedgeOrder.
+    const fraction = Math.min(1, trade.amount / leaderOpenStake);
+    const exitStake = (fraction * Math.min(Math.abs(gap), linkedGap)) / limitPrice;
+
+    logger.info('Mirroring leader exit', {
+      leader,
+      market: trade.marketAddress.toBase58(),
+      fraction,
+      stake: exitStake,
+      price: limitPrice,
+    });
+
+    const placed = trade.orderType === 'back'
+      ? await this.positionManager.placeBackOrder(trade.marketAddress, trade.outcomeIndex, exitStake, limitPrice, { leaderSlot: trade.slot })
+      : await this.positionManager.placeLayOrder(trade.marketAddress, trade.outcomeIndex, exitStake, limitPrice, { leaderSlot: trade.slot });
+
+    for (const link of entries) {
+      const closedFraction = Math.min(1, link.closedFraction + fraction * (1 - link.closedFraction));
+      await this.links.upsert({
+        ...link,
+        closedFraction,
+        status: closedFraction >= 0.999 ? 'closed' : 'open',
+      });
+    }
+
+    return { decision: 'copied', action: 'exit', amount: exitStake, signature: placed.signature };
+  }
+}
@@ -0,0 +1,143 @@
+import { MonacoMarketOutcome } from './monaco-protocol';
+import { OutcomePrices } from './monaco-market-prices';
+import { orderLiability } from '../sizing/position-sizer';
+
+export interface ExposureLeg {
+  outcomeIndex: number;
+  orderType: 'back' | 'lay';
+  stake: number;
+  price: number;
+}
+
+export interface HedgeOrder {
+  side: 'back' | 'lay';
+  stake: number;
+  price: number;
+  // Market profit on this outcome's result once the hedge is matched.
+  profit: number;
+}
+
+export interface OutcomeExposure {
+  outcomeIndex: number;
+  outcomeTitle: string;
+  profitIfWins: number;
+  // Worst result across the other outcomes, i.e. what we make if this outcome loses.
+  profitIfLoses: number;
+  pendingStake: number;
+  hedge: HedgeOrder | null;
+}
+
+export interface MarketExposure {
+  marketId: string;
+  outcomes: OutcomeExposure[];
+  worstCaseLoss: number;
+  matchedWorstCaseLoss: number;
+  pendingLiability: number;
+  unrealizedPnl: number;
+}
+
+const EPSILON = 1e-9;
+
+// A back wins stake * (price - 1) if its outcome wins and loses the stake otherwise; a lay is the mirror image.
+export function legProfit(leg: ExposureLeg, outcomeIndex: number): number {
+  const wins = leg.outcomeIndex === outcomeIndex;
+
+  if (leg.orderType === 'back') {
+    return wins ? leg.stake * (leg.price - 1) : -leg.stake;
+  }
+
+  return wins ? -leg.stake * (leg.price - 1) : leg.stake;
+}
+
+export function outcomeProfits(legs: ExposureLeg[], outcomeIndexes: number[]): number[] {
+  return outcomeIndexes.map(index => legs.reduce((sum, leg) => sum + legProfit(leg, index), 0));
+}
+
+// Stake that equalises this outcome's win and lose results: lay it when we are long the
+// outcome, back it when we are short.
+export function hedgeOrder(
+  profitIfWins: number,
+  profitIfLoses: number,
+  prices: OutcomePrices | null
+): HedgeOrder | null {
+  const gap = profitIfWins - profitIfLoses;
+  if (Math.abs(gap) < EPSILON) return null;
+
+  const side = gap > 0 ? 'lay' : 'back';
+  const price = side === 'lay' ? prices?.bestLayPrice : prices?.bestBackPrice;
+  if (!price || price <= 1) return null;
+
+  const stake = Math.abs(gap) / price;
+  const profit = side === 'lay' ? profitIfLoses + stake : profitIfLoses - stake;
+
+  return { side, stake, price, profit };
+}
+
+export function buildMarketExposure(
+  marketId: string,
+  outcomes: MonacoMarketOutcome[],
+  prices: OutcomePrices[],
+  matchedProfits: number[],
+  pending: ExposureLeg[]
+): MarketExposure {
+  const indexes = [...new Set([
+    ...outcomes.map(o => o.index),
+    ...matchedProfits.map((_, index) => index),
+    ...pending.map(leg => leg.outcomeIndex),
+  ])].sort((a, b) => a - b);
+
+  const profitAt = (index: number) => matchedProfits[index] ?? 0;
+  const pendingProfits = indexes.map(index =>
+    pending.reduce((sum, leg) => sum + Math.min(0, legProfit(leg, index)), 0)
+  );
+
+  const exposures = indexes.map(index => {
+    const others = indexes.filter(other => other !== index).map(profitAt);
+    const profitIfWins = profitAt(index);
+    const profitIfLoses = others.length > 0 ? Math.min(...others) : 0;
+    const outcomePrices = prices.find(p => p.outcomeIndex === index) || null;
+    // An outcome that pays the same as another is part of the field, not a position of its own.
+    const individual = !others.some(profit => Math.abs(profit - profitIfWins) < EPSILON);
+
+    return {
+      outcomeIndex: index,
+      outcomeTitle: outcomes.find(o => o.index === index)?.title || `Outcome ${index}`,
+      profitIfWins,
+      profitIfLoses,
+      pendingStake: pending
+        .filter(leg => leg.outcomeIndex === index)
+        .reduce((sum, leg) => sum + leg.stake, 0),
+      hedge: individual ? hedgeOrder(profitIfWins, profitIfLoses, outcomePrices) : null,
+    };
+  });
+
+  const matchedWorst = indexes.length > 0 ? Math.min(...indexes.map(profitAt)) : 0;
+  // Any unmatched order may still be matched, so only its adverse side is counted.
+  const worst = indexes.length > 0
+    ? Math.min(...indexes.map((index, i) => profitAt(index) + pendingProfits[i]))
+    : 0;
+
+  return {
+    marketId,
+    outcomes: exposures,
+    worstCaseLoss: Math.max(0, -worst),
+    matchedWorstCaseLoss: Math.max(0, -matchedWorst),
+    pendingLiability: pending.reduce((sum, leg) => sum + orderLiability(leg.orderType, leg.stake, leg.price), 0),
+    unrealizedPnl: expectedProfit(indexes, profitAt, prices),
+  };
+}
+
+// Marks the market at the ladder's implied probabilities. Outcomes without a price share
+// whatever probability the priced ones leave over, and the result is normalised to 1.
+function expectedProfit(indexes: number[], profitAt: (index: number) => number, prices: OutcomePrices[]): number {
+  const implied = indexes.map(index => prices.find(p => p.outcomeIndex === index)?.impliedProbability || 0);
+  const priced = implied.reduce((sum, probability) => sum + probability, 0);
+  if (priced <= 0) return 0;
+
+  const unpriced = implied.filter(probability => probability <= 0).length;
+  const remainder = unpriced > 0 ? Math.max(0, 1 - priced) / unpriced : 0;
+  const probabilities = implied.map(probability => probability > 0 ? probability : remainder);
+  const total = probabilities.reduce((sum, probability) => sum + probability, 0);
+
+  return indexes.reduce((sum, index, i) => sum + (probabilities[i] / total) * profitAt(index), 0);
+}
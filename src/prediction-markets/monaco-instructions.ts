@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+
+export const MONACO_PROGRAM_ID = new PublicKey('monacoUXKtUi6vKsQwaLyxmXKSievfNWEcYXTgkbCih');
+
+export type MonacoInstructionKind = 'createOrder' | 'cancelOrder' | 'settlement';
+
+export interface DecodedCreateOrder {
+  kind: 'createOrder';
+  name: string;
+  orderPk?: PublicKey;
+  purchaserPk?: PublicKey;
+  marketPk: PublicKey;
+  outcomeIndex: number;
+  forOutcome: boolean;
+  // Stake in the market mint's base units; the parser scales it by the mint's decimals.
+  rawStake: bigint;
+  price: number;
+}
+
+export interface DecodedCancelOrder {
+  kind: 'cancelOrder';
+  name: string;
+  orderPk: PublicKey;
+  purchaserPk?: PublicKey;
+  marketPk: PublicKey;
+}
+
+export interface DecodedSettlement {
+  kind: 'settlement';
+  name: string;
+  marketPk: PublicKey;
+  orderPk?: PublicKey;
+  marketPositionPk?: PublicKey;
+  purchaserPk?: PublicKey;
+}
+
+export type DecodedMonacoInstruction = DecodedCreateOrder | DecodedCancelOrder | DecodedSettlement;
+
+interface AccountLayout {
+  order?: number;
+  marketPosition?: number;
+  purchaser?: number;
+  market: number;
+}
+
+interface InstructionSpec {
+  name: string;
+  kind: MonacoInstructionKind;
+  accounts: AccountLayout;
+  // Byte offset of the OrderData struct after the 8-byte discriminator.
+  orderDataOffset?: number;
+  // The OrderData struct follows a Borsh String distinct seed: a u32 length, then that many bytes.
+  stringSeed?: boolean;
+}
+
+// Account positions follow the Anchor account structs of the Monaco program.
+const INSTRUCTION_SPECS: InstructionSpec[] = [
+  { name: 'create_order', kind: 'createOrder', accounts: { order: 0, marketPosition: 1, purchaser: 2, market: 4 }, stringSeed: true },
+  { name: 'create_order_v2', kind: 'createOrder', accounts: { order: 0, marketPosition: 1, purchaser: 2, market: 4 }, orderDataOffset: 16 },
+  { name: 'cancel_order', kind: 'cancelOrder', accounts: { order: 0, marketPosition: 1, purchaser: 2, market: 4 } },
+  { name: 'cancel_preplay_order_post_event_start', kind: 'cancelOrder', accounts: { order: 0, marketPosition: 1, purchaser: 2, market: 4 } },
+  { name: 'settle_order', kind: 'settlement', accounts: { order: 0, market: 1 } },
+  { name: 'settle_market_position', kind: 'settlement', accounts: { marketPosition: 0, purchaser: 2, market: 3 } },
+  { name: 'void_order', kind: 'settlement', accounts: { order: 0, market: 1 } },
+  { name: 'void_market_position', kind: 'settlement', accounts: { marketPosition: 0, market: 1 } },
+];
+
+// OrderData: market_outcome_index u16, for_outcome bool, stake u64, price f64
+const ORDER_DATA_SIZE = 2 + 1 + 8 + 8;
+
+// Market account: discriminator, authority, event_account, then mint_account.
+const MARKET_MINT_OFFSET = 8 + 32 + 32;
+
+export function anchorDiscriminator(name: string): Buffer {
+  return createHash('sha256').update(`global:${name}`).digest().subarray(0, 8);
+}
+
+// u64 amounts (stakes, matched sums, exposure) are stored in the market mint's base units.
+export function fromBaseUnits(raw: { toString(): string } | null | undefined, decimals: number): number {
+  return Number((raw ?? 0).toString()) / Math.pow(10, decimals);
+}
+
+export function readMarketMint(data: Uint8Array): PublicKey | null {
+  if (data.length < MARKET_MINT_OFFSET + 32) return null;
+  return new PublicKey(data.subarray(MARKET_MINT_OFFSET, MARKET_MINT_OFFSET + 32));
+}
+
+const SPECS_BY_DISCRIMINATOR = new Map<string, InstructionSpec>(
+  INSTRUCTION_SPECS.map(spec => [anchorDiscriminator(spec.name).toString('hex'), spec])
+);
+
+export function getInstructionName(data: Uint8Array): string | null {
+  if (data.length < 8) return null;
+  const spec = SPECS_BY_DISCRIMINATOR.get(Buffer.from(data.subarray(0, 8)).toString('hex'));
+  return spec ? spec.name : null;
+}
+
+export function decodeMonacoInstruction(
+  data: Uint8Array,
+  accounts: PublicKey[]
+): DecodedMonacoInstruction | null {
+  if (data.length < 8) return null;
+
+  const buffer = Buffer.from(data);
+  const spec = SPECS_BY_DISCRIMINATOR.get(buffer.subarray(0, 8).toString('hex'));
+  if (!spec) return null;
+
+  const account = (index?: number): PublicKey | undefined =>
+    index === undefined ? undefined : accounts[index];
+
+  const marketPk = account(spec.accounts.market);
+  if (!marketPk) return null;
+
+  if (spec.kind === 'createOrder') {
+    let offset = 8 + (spec.orderDataOffset || 0);
+    if (spec.stringSeed) {
+      if (buffer.length < offset + 4) return null;
+      offset += 4 + buffer.readUInt32LE(offset);
+    }
+    if (buffer.length < offset + ORDER_DATA_SIZE) return null;
+
+    const outcomeIndex = buffer.readUInt16LE(offset);
+    const forOutcome = buffer.readUInt8(offset + 2) === 1;
+    const rawStake = buffer.readBigUInt64LE(offset + 3);
+    const price = buffer.readDoubleLE(offset + 11);
+
+    return {
+      kind: 'createOrder',
+      name: spec.name,
+      orderPk: account(spec.accounts.order),
+      purchaserPk: account(spec.accounts.purchaser),
+      marketPk,
+      outcomeIndex,
+      forOutcome,
+      rawStake,
+      price,
+    };
+  }
+
+  if (spec.kind === 'cancelOrder') {
+    const orderPk = account(spec.accounts.order);
+    if (!orderPk) return null;
+
+    return {
+      kind: 'cancelOrder',
+      name: spec.name,
+      orderPk,
+      purchaserPk: account(spec.accounts.purchaser),
+      marketPk,
+    };
+  }
+
+  return {
+    kind: 'settlement',
+    name: spec.name,
+    marketPk,
+    orderPk: account(spec.accounts.order),
+    marketPositionPk: account(spec.accounts.marketPosition),
+    purchaserPk: account(spec.accounts.purchaser),
+  };
+}
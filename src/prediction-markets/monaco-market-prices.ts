@@ -0,0 +1,96 @@
+import { PublicKey } from '@solana/web3.js';
+import { MonacoProtocolIntegration, MonacoOutcomeLadder } from './monaco-protocol';
+
+export interface OutcomePrices {
+  outcomeIndex: number;
+  bestBackPrice: number | null;
+  bestLayPrice: number | null;
+  backLiquidity: number;
+  layLiquidity: number;
+  impliedProbability: number | null;
+  spread: number | null;
+}
+
+export interface MarketPrices {
+  marketPk: PublicKey;
+  outcomes: OutcomePrices[];
+  timestamp: Date;
+}
+
+export class MonacoMarketPriceService {
+  private monaco: MonacoProtocolIntegration;
+  private cache: Map<string, Promise<MonacoOutcomeLadder[] | null>> = new Map();
+
+  constructor(monaco: MonacoProtocolIntegration) {
+    this.monaco = monaco;
+  }
+
+  startCycle(): void {
+    this.cache.clear();
+  }
+
+  async getLadder(marketPk: PublicKey): Promise<MonacoOutcomeLadder[] | null> {
+    const key = marketPk.toBase58();
+    let ladder = this.cache.get(key);
+
+    if (!ladder) {
+      ladder = this.fetchLadder(marketPk);
+      this.cache.set(key, ladder);
+    }
+
+    return await ladder;
+  }
+
+  async getMarketPrices(marketPk: PublicKey): Promise<MarketPrices | null> {
+    const ladder = await this.getLadder(marketPk);
+    if (!ladder) return null;
+
+    return {
+      marketPk,
+      outcomes: ladder.map(outcome => summarizeOutcome(outcome)),
+      timestamp: new Date(),
+    };
+  }
+
+  async getOutcomePrices(marketPk: PublicKey, outcomeIndex: number): Promise<OutcomePrices | null> {
+    const prices = await this.getMarketPrices(marketPk);
+    if (!prices) return null;
+
+    return prices.outcomes.find(o => o.outcomeIndex === outcomeIndex) || null;
+  }
+
+  private async fetchLadder(marketPk: PublicKey): Promise<MonacoOutcomeLadder[] | null> {
+    const ladder = await this.monaco.getMarketLadder(marketPk);
+
+    if (!ladder) {
+      this.cache.delete(marketPk.toBase58());
+    }
+
+    return ladder;
+  }
+}
+
+export function summarizeOutcome(outcome: MonacoOutcomeLadder): OutcomePrices {
+  const bestBack = outcome.backs[0];
+  const bestLay = outcome.lays[0];
+
+  const bestBackPrice = bestBack ? bestBack.price : null;
+  const bestLayPrice = bestLay ? bestLay.price : null;
+
+  let referencePrice: number | null = null;
+  if (bestBackPrice !== null && bestLayPrice !== null) {
+    referencePrice = (bestBackPrice + bestLayPrice) / 2;
+  } else {
+    referencePrice = bestBackPrice ?? bestLayPrice;
+  }
+
+  return {
+    outcomeIndex: outcome.outcomeIndex,
+    bestBackPrice,
+    bestLayPrice,
+    backLiquidity: outcome.backs.reduce((sum, level) => sum + level.liquidity, 0),
+    layLiquidity: outcome.lays.reduce((sum, level) => sum + level.liquidity, 0),
+    impliedProbability: referencePrice ? 1 / referencePrice : null,
+    spread: bestBackPrice !== null && bestLayPrice !== null ? bestLayPrice - bestBackPrice : null,
+  };
+}
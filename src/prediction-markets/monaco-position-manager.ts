@@ -1,127 +1,177 @@
-import { Connection, PublicKey, Keypair } from '@solana/web3.js';
-import { MonacoProtocolIntegration, MonacoMarket, MonacoPosition } from './monaco-protocol';
-
-export interface Position {
-  marketId: string;
-  outcome: 'YES' | 'NO';
-  shares: number;
-  averagePrice: number;
-  currentValue: number;
-  unrealizedPnl: number;
-}
-
-export interface MarketPrices {
-  yesPrice: number;
-  noPrice: number;
-  timestamp: Date;
-}
+import { Connection, PublicKey } from '@solana/web3.js';
+import {
+  MonacoProtocolIntegration,
+  MonacoMarketOutcome,
+  MonacoPosition,
+  OrderContext,
+  PlacedOrder,
+} from './monaco-protocol';
+import { MonacoMarketPriceService, MarketPrices } from './monaco-market-prices';
+import { buildMarketExposure, ExposureLeg, MarketExposure } from './market-exposure';
+import { assertValidPrice } from './monaco-price-ladder';
+import { TradeExecutor } from '../execution/trade-executor';
+import { ExecutionSettings } from '../execution/transaction-sender';
+import { WalletSigner } from '../wallet/wallet-signer';
+import {
+  OrderLifecycleSettings,
+  OrderManager,
+  OrderReplacement,
+  TrackedOrder,
+} from '../orders/order-manager';
 
-export class MonacoPositionManager {
+export class MonacoPositionManager implements TradeExecutor {
+  readonly mode = 'live';
   private monaco: MonacoProtocolIntegration;
+  private prices: MonacoMarketPriceService;
+  private orders: OrderManager;
+  private owner: PublicKey;
+
+  constructor(
+    connection: Connection,
+    wallet: WalletSigner,
+    ordersStatePath: string,
+    lifecycle: OrderLifecycleSettings,
+    execution: ExecutionSettings
+  ) {
+    this.owner = wallet.publicKey;
+    this.monaco = new MonacoProtocolIntegration(connection, wallet, execution);
+    this.prices = new MonacoMarketPriceService(this.monaco);
+    this.orders = new OrderManager(connection, this.monaco, this.prices, ordersStatePath, lifecycle);
+  }
 
-  constructor(connection: Connection, wallet: Keypair) {
-    this.monaco = new MonacoProtocolIntegration(connection, wallet);
-  }
-
-  async getAllPositions(userAddress: PublicKey): Promise<Position[]> {
-    const monacoPositions = await this.monaco.getUserPositions(userAddress);
-    
-    return monacoPositions.map(pos => {
-      const outcome: 'YES' | 'NO' = pos.outcomeIndex === 0 ? 'YES' : 'NO';
-      const shares = pos.matchedAmount + pos.pendingAmount;
-      
-      return {
-        marketId: pos.marketPk.toBase58(),
-        outcome,
-        shares,
-        averagePrice: pos.averageMatchedPrice,
-        currentValue: shares * pos.averageMatchedPrice,
-        unrealizedPnl: 0,
-      };
-    });
-  }
-
-  async getMarketPositions(
-    userAddress: PublicKey,
-    marketAddress: PublicKey
-  ): Promise<{ yes: Position | null; no: Position | null }> {
-    const positions = await this.monaco.getMarketPositions(userAddress, marketAddress);
-    
-    const yesPos = positions.find(p => p.outcomeIndex === 0);
-    const noPos = positions.find(p => p.outcomeIndex === 1);
-
-    return {
-      yes: yesPos ? {
-        marketId: yesPos.marketPk.toBase58(),
-        outcome: 'YES',
-        shares: yesPos.matchedAmount + yesPos.pendingAmount,
-        averagePrice: yesPos.averageMatchedPrice,
-        currentValue: (yesPos.matchedAmount + yesPos.pendingAmount) * yesPos.averageMatchedPrice,
-        unrealizedPnl: 0,
-      } : null,
-      no: noPos ? {
-        marketId: noPos.marketPk.toBase58(),
-        outcome: 'NO',
-        shares: noPos.matchedAmount + noPos.pendingAmount,
-        averagePrice: noPos.averageMatchedPrice,
-        currentValue: (noPos.matchedAmount + noPos.pendingAmount) * noPos.averageMatchedPrice,
-        unrealizedPnl: 0,
-      } : null,
-    };
-  }
-
-  async getMarketPrices(marketAddress: PublicKey): Promise<MarketPrices> {
-    const prices = await this.monaco.getMarketPrices(marketAddress);
-    
-    if (!prices) {
-      return {
-        yesPrice: 0.5,
-        noPrice: 0.5,
-        timestamp: new Date(),
-      };
+  async load(): Promise<void> {
+    await this.orders.load();
+  }
+
+  async getMonacoPositions(userAddress: PublicKey): Promise<MonacoPosition[]> {
+    return await this.monaco.getUserPositions(userAddress);
+  }
+
+  async getAllPositions(userAddress: PublicKey): Promise<MarketExposure[]> {
+    const markets = new Map<string, PublicKey>();
+    for (const pos of await this.monaco.getUserPositions(userAddress)) {
+      markets.set(pos.marketPk.toBase58(), pos.marketPk);
+    }
+    if (userAddress.equals(this.owner)) {
+      for (const order of this.orders.getOpenOrders()) {
+        markets.set(order.marketPk, new PublicKey(order.marketPk));
+      }
     }
 
-    return {
-      yesPrice: prices.yesPrice,
-      noPrice: prices.noPrice,
-      timestamp: new Date(),
-    };
+    const exposures = await Promise.all(
+      [...markets.values()].map(marketPk => this.getMarketPosition(userAddress, marketPk))
+    );
+    return exposures.filter((exposure): exposure is MarketExposure => exposure !== null);
   }
 
-  async buyYesShares(
-    marketAddress: PublicKey,
-    amount: number,
-    maxPrice?: number
-  ): Promise<string> {
-    const expectedPrice = maxPrice || 0.99;
-    return await this.monaco.placeBackOrder(marketAddress, 0, amount, expectedPrice);
+  async getMarketPosition(userAddress: PublicKey, marketAddress: PublicKey): Promise<MarketExposure | null> {
+    const account = await this.monaco.getMarketPositionAccount(marketAddress, userAddress);
+    const pending = userAddress.equals(this.owner) ? this.pendingLegs(marketAddress) : [];
+    if (!account && pending.length === 0) return null;
+
+    // The position account's outcome sums are the matched profit for each outcome winning,
+    // with back stakes and lay liabilities already netted by the program, in mint units like the pending legs.
+    return await this.valueMarket(marketAddress, account?.outcomeSums || [], pending);
   }
 
-  async buyNoShares(
+  async getMarketOutcomes(marketAddress: PublicKey): Promise<MonacoMarketOutcome[]> {
+    return await this.monaco.getMarketOutcomes(marketAddress);
+  }
+
+  async getOutcomeTitle(marketAddress: PublicKey, outcomeIndex: number): Promise<string> {
+    const outcomes = await this.monaco.getMarketOutcomes(marketAddress);
+    const outcome = outcomes.find(o => o.index === outcomeIndex);
+    return outcome ? outcome.title : `Outcome ${outcomeIndex}`;
+  }
+
+  startPriceCycle(): void {
+    this.prices.startCycle();
+  }
+
+  async getMarketPrices(marketAddress: PublicKey): Promise<MarketPrices | null> {
+    return await this.prices.getMarketPrices(marketAddress);
+  }
+
+  getPriceService(): MonacoMarketPriceService {
+    return this.prices;
+  }
+
+  async placeBackOrder(
     marketAddress: PublicKey,
-    amount: number,
-    maxPrice?: number
-  ): Promise<string> {
-    const expectedPrice = maxPrice || 0.99;
-    return await this.monaco.placeLayOrder(marketAddress, 0, amount, expectedPrice);
+    outcomeIndex: number,
+    stake: number,
+    price: number,
+    context?: OrderContext
+  ): Promise<PlacedOrder> {
+    assertValidPrice(price);
+    const placed = await this.monaco.placeBackOrder(marketAddress, outcomeIndex, stake, price, context);
+    await this.orders.track(placed, { marketPk: marketAddress, outcomeIndex, orderType: 'back', stake, price });
+    return placed;
   }
 
-  async sellYesShares(
+  async placeLayOrder(
     marketAddress: PublicKey,
-    shares: number,
-    minPrice?: number
-  ): Promise<string> {
-    const expectedPrice = minPrice || 0.01;
-    return await this.monaco.placeLayOrder(marketAddress, 0, shares, expectedPrice);
+    outcomeIndex: number,
+    stake: number,
+    price: number,
+    context?: OrderContext
+  ): Promise<PlacedOrder> {
+    assertValidPrice(price);
+    const placed = await this.monaco.placeLayOrder(marketAddress, outcomeIndex, stake, price, context);
+    await this.orders.track(placed, { marketPk: marketAddress, outcomeIndex, orderType: 'lay', stake, price });
+    return placed;
+  }
+
+  async cancelOrder(orderPk: PublicKey): Promise<string> {
+    const signature = await this.monaco.cancelOrder(orderPk);
+    await this.orders.markCancelled(orderPk.toBase58());
+    return signature;
+  }
+
+  getOrder(orderPk: string): TrackedOrder | undefined {
+    return this.orders.getOrder(orderPk);
+  }
+
+  getOpenOrders(): TrackedOrder[] {
+    return this.orders.getOpenOrders();
   }
 
-  async sellNoShares(
+  async manageOpenOrders(): Promise<OrderReplacement[]> {
+    return await this.orders.refresh();
+  }
+
+  async claimMarketPosition(marketAddress: PublicKey, voided: boolean): Promise<string | null> {
+    const position = await this.monaco.getMarketPositionAccount(marketAddress, this.owner);
+    if (!position || position.paid) return null;
+
+    return await this.monaco.settleMarketPosition(marketAddress, voided);
+  }
+
+  async valueMarket(
     marketAddress: PublicKey,
-    shares: number,
-    minPrice?: number
-  ): Promise<string> {
-    const expectedPrice = minPrice || 0.01;
-    return await this.monaco.placeBackOrder(marketAddress, 0, shares, expectedPrice);
+    matchedProfits: number[],
+    pending: ExposureLeg[],
+    outcomes?: MonacoMarketOutcome[]
+  ): Promise<MarketExposure> {
+    const [marketOutcomes, prices] = await Promise.all([
+      outcomes ? Promise.resolve(outcomes) : this.monaco.getMarketOutcomes(marketAddress),
+      this.prices.getMarketPrices(marketAddress),
+    ]);
+
+    return buildMarketExposure(marketAddress.toBase58(), marketOutcomes, prices?.outcomes || [], matchedProfits, pending);
+  }
+
+  private pendingLegs(marketAddress: PublicKey): ExposureLeg[] {
+    const marketId = marketAddress.toBase58();
+
+    return this.orders.getOpenOrders()
+      .filter(order => order.marketPk === marketId && order.unmatchedStake > 0)
+      .map(order => ({
+        outcomeIndex: order.outcomeIndex,
+        orderType: order.orderType,
+        stake: order.unmatchedStake,
+        price: order.price,
+      }));
   }
 
   getMonacoClient(): MonacoProtocolIntegration {
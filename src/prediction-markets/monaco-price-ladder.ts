@@ -0,0 +1,97 @@
+export type SlippageMode = 'ticks' | 'percent';
+
+export const SLIPPAGE_MODES: SlippageMode[] = ['ticks', 'percent'];
+
+export interface SlippageSettings {
+  mode: SlippageMode;
+  value: number;
+}
+
+export function assertValidPrice(price: number): void {
+  if (!Number.isFinite(price) || price <= 1) {
+    throw new Error(`Refusing to place order without a valid decimal price (got ${price})`);
+  }
+}
+
+const LADDER_BANDS: Array<{ upTo: number; increment: number }> = [
+  { upTo: 2, increment: 0.01 },
+  { upTo: 3, increment: 0.02 },
+  { upTo: 4, increment: 0.05 },
+  { upTo: 6, increment: 0.1 },
+  { upTo: 10, increment: 0.2 },
+  { upTo: 20, increment: 0.5 },
+  { upTo: 30, increment: 1 },
+  { upTo: 50, increment: 2 },
+  { upTo: 100, increment: 5 },
+  { upTo: 1000, increment: 10 },
+];
+
+function buildLadder(): number[] {
+  const prices: number[] = [];
+  let lastCents = 100;
+
+  for (const band of LADDER_BANDS) {
+    const step = Math.round(band.increment * 100);
+    const limit = Math.round(band.upTo * 100);
+
+    for (let cents = lastCents + step; cents <= limit; cents += step) {
+      prices.push(cents / 100);
+      lastCents = cents;
+    }
+  }
+
+  return prices;
+}
+
+export const DEFAULT_PRICE_LADDER: number[] = buildLadder();
+
+export function snapToLadder(
+  price: number,
+  direction: 'up' | 'down' | 'nearest',
+  ladder: number[] = DEFAULT_PRICE_LADDER
+): number | null {
+  if (!Number.isFinite(price) || ladder.length === 0) return null;
+  if (price < ladder[0]) return direction === 'down' ? null : ladder[0];
+  if (price > ladder[ladder.length - 1]) return direction === 'up' ? null : ladder[ladder.length - 1];
+
+  const index = ladder.findIndex(tick => tick >= price - 1e-9);
+  const above = ladder[index];
+  if (Math.abs(above - price) < 1e-9) return above;
+
+  const below = ladder[index - 1];
+  if (direction === 'up') return above;
+  if (direction === 'down') return below;
+  return price - below <= above - price ? below : above;
+}
+
+export function shiftTicks(price: number, ticks: number, ladder: number[] = DEFAULT_PRICE_LADDER): number | null {
+  const snapped = snapToLadder(price, 'nearest', ladder);
+  if (snapped === null) return null;
+
+  const index = ladder.indexOf(snapped) + ticks;
+  return ladder[Math.max(0, Math.min(ladder.length - 1, index))];
+}
+
+export function applySlippage(
+  price: number | undefined,
+  orderType: 'back' | 'lay',
+  slippage: SlippageSettings,
+  ladder: number[] = DEFAULT_PRICE_LADDER
+): number | null {
+  if (!price || price <= 1) return null;
+
+  const reference = snapToLadder(price, 'nearest', ladder);
+  if (reference === null) return null;
+
+  // A backer accepts shorter odds and a layer accepts longer odds, so slippage moves the
+  // limit down for backs and up for lays, then snaps back towards the leader's price.
+  if (slippage.mode === 'ticks') {
+    const ticks = Math.max(0, Math.floor(slippage.value));
+    return shiftTicks(reference, orderType === 'back' ? -ticks : ticks, ladder);
+  }
+
+  const factor = slippage.value / 100;
+  return orderType === 'back'
+    ? snapToLadder(reference * (1 - factor), 'up', ladder)
+    : snapToLadder(reference * (1 + factor), 'down', ladder);
+}
@@ -1,7 +1,17 @@
-import { Connection, PublicKey, Keypair, Transaction } from '@solana/web3.js';
+import { Connection, PublicKey, Transaction } from '@solana/web3.js';
 import { MonacoProtocolClient } from '@monaco-protocol/client';
+import { MonacoTransactionParser } from './monaco-transaction-parser';
+import { fromBaseUnits, MONACO_PROGRAM_ID } from './monaco-instructions';
+import {
+  DEFAULT_EXECUTION_SETTINGS,
+  ExecutionSettings,
+  SendResult,
+  TransactionSender,
+} from '../execution/transaction-sender';
+import { WalletSigner } from '../wallet/wallet-signer';
+import { logger } from '../observability/logger';
 
-export const MONACO_PROGRAM_ID = new PublicKey('monacoUXKtUi6vKsQwaLyxmXKSievfNWEcYXTgkbCih');
+export { MONACO_PROGRAM_ID };
 
 export interface MonacoMarket {
   marketPk: PublicKey;
@@ -12,9 +22,27 @@ export interface MonacoMarket {
   eventAccount: PublicKey;
   mintAccount: PublicKey;
   marketOutcomesCount: number;
+  marketWinningOutcomeIndex: number | null;
   inplayEnabled: boolean;
 }
 
+export interface MonacoMarketOutcome {
+  marketPk: PublicKey;
+  index: number;
+  title: string;
+}
+
+export interface MonacoPriceLevel {
+  price: number;
+  liquidity: number;
+}
+
+export interface MonacoOutcomeLadder {
+  outcomeIndex: number;
+  backs: MonacoPriceLevel[];
+  lays: MonacoPriceLevel[];
+}
+
 export interface MonacoPosition {
   marketPk: PublicKey;
   marketTitle: string;
@@ -26,6 +54,44 @@ export interface MonacoPosition {
   averageMatchedPrice: number;
 }
 
+export interface PlacedOrder {
+  orderPk: PublicKey;
+  signature: string;
+  matchedStake?: number;
+  averagePrice?: number;
+  confirmation?: SendResult;
+}
+
+export interface OrderContext {
+  leaderSlot?: number;
+}
+
+export type MonacoOrderStatus = 'open' | 'matched' | 'cancelled' | 'settled' | 'voided';
+
+export interface MonacoOrder {
+  orderPk: PublicKey;
+  marketPk: PublicKey;
+  purchaserPk: PublicKey;
+  outcomeIndex: number;
+  forOutcome: boolean;
+  // Stakes are in mint units, scaled from the account's base units by the market mint's decimals.
+  stake: number;
+  stakeUnmatched: number;
+  voidedStake: number;
+  expectedPrice: number;
+  status: MonacoOrderStatus;
+  creationTimestamp?: number;
+}
+
+export interface MonacoMarketPositionAccount {
+  marketPk: PublicKey;
+  purchaserPk: PublicKey;
+  // Net profit for each outcome if that outcome wins, across all of the purchaser's matched orders.
+  outcomeSums: number[];
+  maxExposure: number;
+  paid: boolean;
+}
+
 export interface MonacoTrade {
   marketPk: PublicKey;
   outcomeIndex: number;
@@ -35,36 +101,86 @@ export interface MonacoTrade {
   orderType: 'back' | 'lay';
 }
 
+function toOrderStatus(raw: any): MonacoOrderStatus {
+  const status = String(raw || '').toLowerCase();
+
+  if (status.startsWith('settled')) return 'settled';
+  if (status === 'matched' || status === 'cancelled' || status === 'voided') return status;
+  return 'open';
+}
+
+function toMonacoMarket(raw: any): MonacoMarket {
+  return {
+    marketPk: new PublicKey(raw.publicKey),
+    marketTitle: raw.marketTitle,
+    marketLockTimestamp: raw.marketLockTimestamp,
+    marketSettleTimestamp: raw.marketSettleTimestamp,
+    marketStatus: raw.marketStatus,
+    eventAccount: new PublicKey(raw.eventAccount),
+    mintAccount: new PublicKey(raw.mintAccount),
+    marketOutcomesCount: raw.marketOutcomesCount,
+    marketWinningOutcomeIndex: raw.marketWinningOutcomeIndex ?? null,
+    inplayEnabled: raw.inplayEnabled,
+  };
+}
+
+function toMarketPositionAccount(marketPk: PublicKey, raw: any, decimals: number): MonacoMarketPositionAccount {
+  const amount = (value: any) => fromBaseUnits(value, decimals);
+
+  return {
+    marketPk,
+    purchaserPk: new PublicKey(raw.purchaser),
+    outcomeSums: (raw.marketOutcomeSums || []).map(amount),
+    maxExposure: Math.max(0, ...(raw.outcomeMaxExposure || []).map(amount)),
+    paid: Boolean(raw.paid),
+  };
+}
+
+function toMonacoOrder(orderPk: PublicKey, raw: any, decimals: number): MonacoOrder {
+  return {
+    orderPk,
+    marketPk: new PublicKey(raw.market),
+    purchaserPk: new PublicKey(raw.purchaser),
+    outcomeIndex: raw.marketOutcomeIndex,
+    forOutcome: raw.forOutcome,
+    stake: fromBaseUnits(raw.stake, decimals),
+    stakeUnmatched: fromBaseUnits(raw.stakeUnmatched, decimals),
+    voidedStake: fromBaseUnits(raw.voidedStake, decimals),
+    expectedPrice: Number(raw.expectedPrice || 0),
+    status: toOrderStatus(raw.orderStatus),
+    creationTimestamp: raw.creationTimestamp !== undefined ? Number(raw.creationTimestamp) : undefined,
+  };
+}
+
 export class MonacoProtocolIntegration {
   private client: MonacoProtocolClient;
   private connection: Connection;
-  private wallet: Keypair;
+  private wallet: WalletSigner;
+  private parser: MonacoTransactionParser;
+  private sender: TransactionSender;
 
-  constructor(connection: Connection, wallet: Keypair) {
+  constructor(
+    connection: Connection,
+    wallet: WalletSigner,
+    execution: ExecutionSettings = DEFAULT_EXECUTION_SETTINGS
+  ) {
     this.connection = connection;
     this.wallet = wallet;
     this.client = new MonacoProtocolClient(connection, MONACO_PROGRAM_ID);
+    this.parser = new MonacoTransactionParser(connection);
+    this.sender = new TransactionSender(connection, wallet, execution);
   }
 
   async getActiveMarkets(): Promise<MonacoMarket[]> {
-    try {
-      const markets = await this.client.markets.getMarkets({
-        status: 'open',
-      });
+    return this.getMarketsByStatus('open');
+  }
 
-      return markets.data.markets.map((market: any) => ({
-        marketPk: new PublicKey(market.publicKey),
-        marketTitle: market.marketTitle,
-        marketLockTimestamp: market.marketLockTimestamp,
-        marketSettleTimestamp: market.marketSettleTimestamp,
-        marketStatus: market.marketStatus,
-        eventAccount: new PublicKey(market.eventAccount),
-        mintAccount: new PublicKey(market.mintAccount),
-        marketOutcomesCount: market.marketOutcomesCount,
-        inplayEnabled: market.inplayEnabled,
-      }));
+  async getMarketsByStatus(status: string): Promise<MonacoMarket[]> {
+    try {
+      const markets = await this.client.markets.getMarkets({ status });
+      return markets.data.markets.map(toMonacoMarket);
     } catch (error) {
-      console.error('Error fetching Monaco markets:', error);
+      logger.error('Error fetching Monaco markets', { status, error });
       return [];
     }
   }
@@ -75,36 +191,61 @@ export class MonacoProtocolIntegration {
       
       if (!market.data) return null;
 
-      return {
-        marketPk: new PublicKey(market.data.publicKey),
-        marketTitle: market.data.marketTitle,
-        marketLockTimestamp: market.data.marketLockTimestamp,
-        marketSettleTimestamp: market.data.marketSettleTimestamp,
-        marketStatus: market.data.marketStatus,
-        eventAccount: new PublicKey(market.data.eventAccount),
-        mintAccount: new PublicKey(market.data.mintAccount),
-        marketOutcomesCount: market.data.marketOutcomesCount,
-        inplayEnabled: market.data.inplayEnabled,
-      };
+      return toMonacoMarket(market.data);
     } catch (error) {
-      console.error(`Error fetching market ${marketPk.toBase58()}:`, error);
+      logger.error('Error fetching market', { market: marketPk.toBase58(), error });
       return null;
     }
   }
 
-  async getMarketPrices(marketPk: PublicKey): Promise<{ yesPrice: number; noPrice: number } | null> {
+  async getEventCategory(eventPk: PublicKey): Promise<string | null> {
     try {
-      const market = await this.getMarket(marketPk);
-      if (!market) return null;
+      const event = await this.client.events.getEvent(eventPk);
+      return event.data?.category || null;
+    } catch (error) {
+      logger.error('Error fetching event', { event: eventPk.toBase58(), error });
+      return null;
+    }
+  }
+
+  async getMarketOutcomes(marketPk: PublicKey): Promise<MonacoMarketOutcome[]> {
+    try {
+      const outcomes = await this.client.markets.getMarketOutcomes(marketPk);
+
+      return outcomes.data.marketOutcomes
+        .map((outcome: any) => ({
+          marketPk,
+          index: outcome.index,
+          title: outcome.title || `Outcome ${outcome.index}`,
+        }))
+        .sort((a: MonacoMarketOutcome, b: MonacoMarketOutcome) => a.index - b.index);
+    } catch (error) {
+      logger.error('Error fetching market outcomes', { market: marketPk.toBase58(), error });
+      return [];
+    }
+  }
 
+  async getMarketLadder(marketPk: PublicKey): Promise<MonacoOutcomeLadder[] | null> {
+    try {
       const ladder = await this.client.markets.getMarketLadder(marketPk);
-      
-      return {
-        yesPrice: 0.5,
-        noPrice: 0.5,
-      };
+
+      if (!ladder.data) return null;
+
+      const toLevels = (levels: any[] | undefined): MonacoPriceLevel[] =>
+        (levels || [])
+          .map((level: any) => ({
+            price: Number(level.price),
+            liquidity: Number(level.liquidity || 0),
+          }))
+          .filter(level => level.price > 1 && level.liquidity > 0);
+
+      return ladder.data.marketLadder.map((outcome: any) => ({
+        outcomeIndex: outcome.outcomeIndex,
+        backs: toLevels(outcome.backs).sort((a, b) => b.price - a.price),
+        lays: toLevels(outcome.lays).sort((a, b) => a.price - b.price),
+      }));
     } catch (error) {
-      console.error(`Error fetching market prices for ${marketPk.toBase58()}:`, error);
+      logger.error('Error fetching market ladder', { market: marketPk.toBase58(), error });
       return null;
     }
   }
@@ -124,7 +265,7 @@ export class MonacoProtocolIntegration {
         averageMatchedPrice: pos.averageMatchedPrice || 0,
       }));
     } catch (error) {
-      console.error(`Error fetching positions for ${userPk.toBase58()}:`, error);
+      logger.error('Error fetching positions', { owner: userPk.toBase58(), error });
       return [];
     }
   }
@@ -138,58 +279,164 @@ export class MonacoProtocolIntegration {
     marketPk: PublicKey,
     outcomeIndex: number,
     stake: number,
-    expectedPrice: number
-  ): Promise<string> {
+    expectedPrice: number,
+    context: OrderContext = {}
+  ): Promise<PlacedOrder> {
+    return await this.placeOrder(marketPk, outcomeIndex, true, stake, expectedPrice, context);
+  }
+
+  async placeLayOrder(
+    marketPk: PublicKey,
+    outcomeIndex: number,
+    stake: number,
+    expectedPrice: number,
+    context: OrderContext = {}
+  ): Promise<PlacedOrder> {
+    return await this.placeOrder(marketPk, outcomeIndex, false, stake, expectedPrice, context);
+  }
+
+  private async placeOrder(
+    marketPk: PublicKey,
+    outcomeIndex: number,
+    forOutcome: boolean,
+    stake: number,
+    expectedPrice: number,
+    context: OrderContext
+  ): Promise<PlacedOrder> {
+    const label = `${forOutcome ? 'Back' : 'Lay'} order`;
+
     try {
-      const response = await this.client.orders.placeOrder({
+      const built = await this.client.orders.buildOrderInstruction({
         marketPk,
         outcomeIndex,
-        forOutcome: true,
+        forOutcome,
         stake,
         expectedPrice,
         payer: this.wallet.publicKey,
       });
 
-      return response.data.tnxSignature;
+      const result = await this.sender.send(built.data.instructions, {
+        label,
+        leaderSlot: context.leaderSlot,
+      });
+
+      if (result.status !== 'confirmed') {
+        throw new Error(`${label} transaction ${result.signature} failed`);
+      }
+
+      return {
+        orderPk: new PublicKey(built.data.orderPk),
+        signature: result.signature,
+        confirmation: result,
+      };
     } catch (error) {
-      console.error('Error placing back order:', error);
+      logger.error('Error placing order', { side: forOutcome ? 'back' : 'lay', error });
       throw error;
     }
   }
 
-  async placeLayOrder(
+  async getOrder(orderPk: PublicKey): Promise<MonacoOrder | null> {
+    try {
+      const order = await this.client.orders.getOrder(orderPk);
+
+      if (!order.data) return null;
+
+      const decimals = await this.parser.loadMintDecimals(new PublicKey(order.data.market));
+      if (decimals === null) return null;
+
+      return toMonacoOrder(orderPk, order.data, decimals);
+    } catch (error) {
+      logger.error('Error fetching order', { order: orderPk.toBase58(), error });
+      return null;
+    }
+  }
+
+  async getMarketOrders(marketPk: PublicKey): Promise<MonacoOrder[]> {
+    try {
+      const decimals = await this.parser.loadMintDecimals(marketPk);
+      if (decimals === null) return [];
+
+      const orders = await this.client.orders.getOrdersByMarket(marketPk);
+
+      return orders.data.orderAccounts.map((entry: any) =>
+        toMonacoOrder(new PublicKey(entry.publicKey), entry.account, decimals)
+      );
+    } catch (error) {
+      logger.error('Error fetching market orders', { market: marketPk.toBase58(), error });
+      return [];
+    }
+  }
+
+  async getMarketPositionAccounts(marketPk: PublicKey): Promise<MonacoMarketPositionAccount[]> {
+    try {
+      const decimals = await this.parser.loadMintDecimals(marketPk);
+      if (decimals === null) return [];
+
+      const positions = await this.client.markets.getMarketPositionsByMarket(marketPk);
+
+      return positions.data.marketPositionAccounts.map((entry: any) =>
+        toMarketPositionAccount(marketPk, entry.account, decimals)
+      );
+    } catch (error) {
+      logger.error('Error fetching market positions', { market: marketPk.toBase58(), error });
+      return [];
+    }
+  }
+
+  async getMarketPositionAccount(
     marketPk: PublicKey,
-    outcomeIndex: number,
-    stake: number,
-    expectedPrice: number
-  ): Promise<string> {
+    purchaserPk: PublicKey
+  ): Promise<MonacoMarketPositionAccount | null> {
     try {
-      const response = await this.client.orders.placeOrder({
-        marketPk,
-        outcomeIndex,
-        forOutcome: false,
-        stake,
-        expectedPrice,
-        payer: this.wallet.publicKey,
-      });
+      const decimals = await this.parser.loadMintDecimals(marketPk);
+      if (decimals === null) return null;
 
-      return response.data.tnxSignature;
+      const position = await this.client.markets.getMarketPosition(marketPk, purchaserPk);
+      return position.data ? toMarketPositionAccount(marketPk, position.data, decimals) : null;
     } catch (error) {
-      console.error('Error placing lay order:', error);
+      logger.error('Error fetching market position', { market: marketPk.toBase58(), error });
+      return null;
+    }
+  }
+
+  async settleMarketPosition(marketPk: PublicKey, voided: boolean): Promise<string> {
+    const label = voided ? 'Void market position' : 'Settle market position';
+
+    try {
+      const params = { marketPk, purchaser: this.wallet.publicKey };
+      const built = voided
+        ? await this.client.markets.buildVoidMarketPositionInstruction(params)
+        : await this.client.markets.buildSettleMarketPositionInstruction(params);
+
+      const result = await this.sender.send(built.data.instructions, { label });
+
+      if (result.status !== 'confirmed') {
+        throw new Error(`${label} transaction ${result.signature} failed`);
+      }
+
+      return result.signature;
+    } catch (error) {
+      logger.error('Error settling market position', { market: marketPk.toBase58(), voided, error });
       throw error;
     }
   }
 
   async cancelOrder(orderPk: PublicKey): Promise<string> {
     try {
-      const response = await this.client.orders.cancelOrder({
+      const built = await this.client.orders.buildCancelOrderInstruction({
         orderPk,
         authority: this.wallet.publicKey,
       });
 
-      return response.data.tnxSignature;
+      const result = await this.sender.send(built.data.instructions, { label: 'Cancel order' });
+
+      if (result.status !== 'confirmed') {
+        throw new Error(`Cancel transaction ${result.signature} failed`);
+      }
+
+      return result.signature;
     } catch (error) {
-      console.error('Error canceling order:', error);
+      logger.error('Error cancelling order', { error });
       throw error;
     }
   }
@@ -202,22 +449,10 @@ export class MonacoProtocolIntegration {
 
       if (!tx) return null;
 
-      const accountKeys = tx.transaction.message.accountKeys;
-      const monacoInvolved = accountKeys.some(
-        (key: any) => key.pubkey?.toString() === MONACO_PROGRAM_ID.toBase58() ||
-                      key.toString() === MONACO_PROGRAM_ID.toBase58()
-      );
-
-      if (!monacoInvolved) return null;
-
-      const instructions = tx.transaction.message.instructions;
-
-      for (const ix of instructions) {
-      }
-
-      return null;
+      const parsed = await this.parser.parseTransactionResponse(tx);
+      return parsed ? this.parser.convertToStandardTrade(parsed) : null;
     } catch (error) {
-      console.error(`Error parsing transaction ${txSignature}:`, error);
+      logger.error('Error parsing transaction', { signature: txSignature, error });
       return null;
     }
   }
@@ -1,5 +1,15 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { MONACO_PROGRAM_ID, MonacoTrade } from './monaco-protocol';
+import { getMint } from '@solana/spl-token';
+import type { MonacoTrade } from './monaco-protocol';
+import {
+  decodeMonacoInstruction,
+  DecodedCreateOrder,
+  DecodedMonacoInstruction,
+  fromBaseUnits,
+  MONACO_PROGRAM_ID,
+  readMarketMint,
+} from './monaco-instructions';
+import { logger } from '../observability/logger';
 
 export interface ParsedMonacoTrade {
   marketPk: PublicKey;
@@ -8,9 +18,14 @@ export interface ParsedMonacoTrade {
   stake: number;
   expectedPrice: number;
   orderType: 'back' | 'lay';
+  orderPk?: PublicKey;
+  purchaserPk?: PublicKey;
 }
 
 export class MonacoTransactionParser {
+  // Decimals of each market's mint, keyed by market address.
+  private mintDecimals: Map<string, number> = new Map();
+
   constructor(private connection: Connection) {}
 
   isMonacoTransaction(tx: any): boolean {
@@ -18,13 +33,9 @@ export class MonacoTransactionParser {
       return false;
     }
 
-    const accountKeys = tx.transaction.message.accountKeys;
     const monacoProgramId = MONACO_PROGRAM_ID.toBase58();
 
-    return accountKeys.some((key: any) => {
-      const keyStr = key.pubkey?.toString() || key.toString();
-      return keyStr === monacoProgramId;
-    });
+    return this.getAccountKeys(tx).some(key => key.toBase58() === monacoProgramId);
   }
 
   async parseTransaction(txSignature: string): Promise<ParsedMonacoTrade | null> {
@@ -33,45 +44,117 @@ export class MonacoTransactionParser {
         maxSupportedTransactionVersion: 0,
       });
 
-      if (!tx || !this.isMonacoTransaction(tx)) {
-        return null;
-      }
+      return this.parseTransactionResponse(tx);
+    } catch (error) {
+      logger.error('Error parsing Monaco transaction', { signature: txSignature, error });
+      return null;
+    }
+  }
+
+  // Only orders placed by the purchaser count when one is given; a leader's transaction can
+  // carry other wallets' orders.
+  async parseTransactionResponse(tx: any, purchaser?: PublicKey | string): Promise<ParsedMonacoTrade | null> {
+    const purchaserKey = purchaser?.toString();
+
+    for (const ix of this.decodeInstructions(tx)) {
+      if (ix.kind !== 'createOrder') continue;
+      if (purchaserKey && ix.purchaserPk && ix.purchaserPk.toBase58() !== purchaserKey) continue;
+
+      const trade = await this.toTrade(ix);
+      if (trade) return trade;
+    }
+
+    return null;
+  }
+
+  // The order with its stake in mint units, or null when the market's mint decimals cannot be read.
+  async toTrade(ix: DecodedCreateOrder): Promise<ParsedMonacoTrade | null> {
+    const decimals = await this.loadMintDecimals(ix.marketPk);
+    if (decimals === null) return null;
+
+    return {
+      marketPk: ix.marketPk,
+      outcomeIndex: ix.outcomeIndex,
+      forOutcome: ix.forOutcome,
+      stake: fromBaseUnits(ix.rawStake, decimals),
+      expectedPrice: ix.price,
+      orderType: ix.forOutcome ? 'back' : 'lay',
+      orderPk: ix.orderPk,
+      purchaserPk: ix.purchaserPk,
+    };
+  }
+
+  decodeInstructions(tx: any): DecodedMonacoInstruction[] {
+    if (!tx || !this.isMonacoTransaction(tx) || tx.meta?.err) {
+      return [];
+    }
+
+    const message = tx.transaction.message;
+    const accountKeys = this.getAccountKeys(tx);
+    const decoded: DecodedMonacoInstruction[] = [];
+
+    for (const ix of message.compiledInstructions || []) {
+      const programId = accountKeys[ix.programIdIndex];
+      if (!programId || !programId.equals(MONACO_PROGRAM_ID)) continue;
 
-      const instructions = tx.transaction.message.instructions;
-      const accountKeys = tx.transaction.message.accountKeys;
-
-      for (const ix of instructions) {
-        const programIdIndex = typeof ix.programIdIndex === 'number' 
-          ? ix.programIdIndex 
-          : accountKeys.findIndex((k: any) => 
-              (k.pubkey?.toString() || k.toString()) === MONACO_PROGRAM_ID.toBase58()
-            );
-
-        if (programIdIndex === -1) continue;
-
-        try {
-          const marketIndex = ix.accounts?.[0] || 0;
-          const marketPk = accountKeys[marketIndex]?.pubkey || accountKeys[marketIndex];
-
-          if (!marketPk) continue;
-
-          return {
-            marketPk: new PublicKey(marketPk),
-            outcomeIndex: 0,
-            forOutcome: true,
-            stake: 0.1,
-            expectedPrice: 0.5,
-            orderType: 'back',
-          };
-        } catch (error) {
-          console.error('Error parsing Monaco instruction:', error);
-          continue;
+      try {
+        const accounts = ix.accountKeyIndexes.map((index: number) => accountKeys[index]);
+        const instruction = decodeMonacoInstruction(ix.data, accounts);
+
+        if (instruction) {
+          decoded.push(instruction);
         }
+      } catch (error) {
+        logger.error('Error parsing Monaco instruction', { error });
+        continue;
       }
+    }
 
-      return null;
+    return decoded;
+  }
+
+  // Static keys followed by keys loaded from lookup tables, so v0 messages resolve like legacy ones.
+  getAccountKeys(tx: any): PublicKey[] {
+    const message = tx.transaction.message;
+
+    if (typeof message.getAccountKeys === 'function') {
+      const keys = message.getAccountKeys({
+        accountKeysFromLookups: tx.meta?.loadedAddresses,
+      });
+      return keys.keySegments().flat();
+    }
+
+    return (message.accountKeys || []).map((key: any) => new PublicKey(key.pubkey || key));
+  }
+
+  // Stake in mint units, or null while the market's mint decimals have not been loaded.
+  stakeOf(ix: DecodedCreateOrder): number | null {
+    const decimals = this.mintDecimals.get(ix.marketPk.toBase58());
+    return decimals === undefined ? null : fromBaseUnits(ix.rawStake, decimals);
+  }
+
+  setMintDecimals(marketPk: PublicKey, decimals: number): void {
+    this.mintDecimals.set(marketPk.toBase58(), decimals);
+  }
+
+  async loadMintDecimals(marketPk: PublicKey): Promise<number | null> {
+    const key = marketPk.toBase58();
+    const cached = this.mintDecimals.get(key);
+    if (cached !== undefined) return cached;
+
+    try {
+      const account = await this.connection.getAccountInfo(marketPk);
+      const mint = account ? readMarketMint(account.data) : null;
+      if (!mint) {
+        logger.warn('Market account not found, cannot read its mint', { market: key });
+        return null;
+      }
+
+      const mintInfo = await getMint(this.connection, mint);
+      this.mintDecimals.set(key, mintInfo.decimals);
+      return mintInfo.decimals;
     } catch (error) {
-      console.error(`Error parsing Monaco transaction ${txSignature}:`, error);
+      logger.error('Error fetching market mint decimals', { market: key, error });
       return null;
     }
   }
@@ -87,4 +170,3 @@ export class MonacoTransactionParser {
     };
   }
 }
-
@@ -0,0 +1,37 @@
+import { PublicKey } from '@solana/web3.js';
+import { TradeExecutor } from '../execution/trade-executor';
+import { SettlementTracker } from '../accounting/settlement-tracker';
+import { ExposureSnapshot } from './risk-engine';
+
+// Exposure is the worst-case loss of each market, counting lay liability and unmatched orders.
+// Markets that have resolved or stopped trading are left out even while their position account lingers.
+export async function computeExposure(
+  executor: TradeExecutor,
+  owner: PublicKey,
+  settlements?: SettlementTracker
+): Promise<ExposureSnapshot> {
+  const positions = await executor.getAllPositions(owner);
+  const byMarket = new Map<string, number>();
+  const byEvent = new Map<string, number>();
+
+  for (const position of positions) {
+    if (position.worstCaseLoss <= 0 && position.pendingLiability <= 0) continue;
+    if (settlements?.isResolved(position.marketId)) continue;
+
+    const market = await executor.getMonacoClient().getMarket(new PublicKey(position.marketId));
+    if (market && market.marketStatus !== 'open') continue;
+
+    byMarket.set(position.marketId, position.worstCaseLoss);
+
+    if (market) {
+      const eventId = market.eventAccount.toBase58();
+      byEvent.set(eventId, (byEvent.get(eventId) || 0) + position.worstCaseLoss);
+    }
+  }
+
+  return {
+    byMarket,
+    byEvent,
+    openMarkets: new Set(byMarket.keys()),
+  };
+}
@@ -0,0 +1,74 @@
+import type { ParsedTrade } from '../bot';
+import { MonacoMarket } from '../prediction-markets/monaco-protocol';
+import { OutcomePrices } from '../prediction-markets/monaco-market-prices';
+
+export type RiskVerdict =
+  | { action: 'allow' }
+  | { action: 'resize'; amount: number; reason: string }
+  | { action: 'reject'; reason: string };
+
+export interface ExposureSnapshot {
+  byMarket: Map<string, number>;
+  byEvent: Map<string, number>;
+  openMarkets: Set<string>;
+}
+
+export interface RiskContext {
+  leader: string;
+  trade: ParsedTrade;
+  stake: number;
+  // The leader's price after slippage, i.e. the limit our order is placed at.
+  limitPrice: number;
+  market: MonacoMarket | null;
+  outcomePrices: OutcomePrices | null;
+  exposure: ExposureSnapshot;
+  lastCopyAt?: number;
+  now: number;
+}
+
+export interface RiskRule {
+  name: string;
+  evaluate(ctx: RiskContext): RiskVerdict;
+}
+
+export interface RiskDecision {
+  action: 'allow' | 'resize' | 'reject';
+  amount: number;
+  reasons: string[];
+}
+
+export class RiskEngine {
+  private rules: RiskRule[];
+
+  constructor(rules: RiskRule[]) {
+    this.rules = rules;
+  }
+
+  getRules(): RiskRule[] {
+    return [...this.rules];
+  }
+
+  evaluate(ctx: RiskContext): RiskDecision {
+    let amount = ctx.stake;
+    const reasons: string[] = [];
+
+    for (const rule of this.rules) {
+      const verdict = rule.evaluate({ ...ctx, stake: amount });
+
+      if (verdict.action === 'reject') {
+        return { action: 'reject', amount: 0, reasons: [...reasons, `${rule.name}: ${verdict.reason}`] };
+      }
+
+      if (verdict.action === 'resize') {
+        if (verdict.amount <= 0) {
+          return { action: 'reject', amount: 0, reasons: [...reasons, `${rule.name}: ${verdict.reason}`] };
+        }
+
+        amount = Math.min(amount, verdict.amount);
+        reasons.push(`${rule.name}: ${verdict.reason}`);
+      }
+    }
+
+    return { action: amount < ctx.stake ? 'resize' : 'allow', amount, reasons };
+  }
+}
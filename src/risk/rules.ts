@@ -0,0 +1,164 @@
+import { RiskRule, RiskContext, RiskVerdict } from './risk-engine';
+import { orderLiability } from '../sizing/position-sizer';
+import { logger } from '../observability/logger';
+
+export interface RiskLimits {
+  maxMarketExposure?: number;
+  maxEventExposure?: number;
+  maxOpenMarkets?: number;
+  minSecondsBeforeLock?: number;
+  allowInplay: boolean;
+  maxPrice?: number;
+  minLiquidity?: number;
+  leaderCooldownMs?: number;
+}
+
+const allow: RiskVerdict = { action: 'allow' };
+
+// What one unit of stake adds to worst-case loss: the stake for a back, the liability for a lay.
+// Priced at our slipped limit, which is the worst price the order can be matched at.
+function riskPerStake(ctx: RiskContext): number {
+  const price = ctx.limitPrice;
+  return price > 1 ? orderLiability(ctx.trade.orderType, 1, price) : 1;
+}
+
+function headroomVerdict(current: number, limit: number, ctx: RiskContext, label: string): RiskVerdict {
+  const headroom = limit - current;
+
+  if (headroom <= 0) {
+    return { action: 'reject', reason: `${label} exposure ${current.toFixed(4)} at limit ${limit}` };
+  }
+
+  const perStake = riskPerStake(ctx);
+  if (ctx.stake * perStake > headroom) {
+    return { action: 'resize', amount: headroom / perStake, reason: `${label} exposure capped at ${limit}` };
+  }
+
+  return allow;
+}
+
+export function maxMarketExposureRule(limit: number): RiskRule {
+  return {
+    name: 'maxMarketExposure',
+    evaluate: (ctx: RiskContext) => {
+      const current = ctx.exposure.byMarket.get(ctx.trade.marketAddress.toBase58()) || 0;
+      return headroomVerdict(current, limit, ctx, 'market');
+    },
+  };
+}
+
+export function maxEventExposureRule(limit: number): RiskRule {
+  return {
+    name: 'maxEventExposure',
+    evaluate: (ctx: RiskContext) => {
+      if (!ctx.market) return { action: 'reject', reason: 'market unavailable' };
+
+      const current = ctx.exposure.byEvent.get(ctx.market.eventAccount.toBase58()) || 0;
+      return headroomVerdict(current, limit, ctx, 'event');
+    },
+  };
+}
+
+export function maxOpenMarketsRule(limit: number): RiskRule {
+  return {
+    name: 'maxOpenMarkets',
+    evaluate: (ctx: RiskContext) => {
+      const marketId = ctx.trade.marketAddress.toBase58();
+      if (ctx.exposure.openMarkets.has(marketId)) return allow;
+
+      return ctx.exposure.openMarkets.size >= limit
+        ? { action: 'reject', reason: `already in ${ctx.exposure.openMarkets.size} markets (max ${limit})` }
+        : allow;
+    },
+  };
+}
+
+export function minTimeBeforeLockRule(seconds: number): RiskRule {
+  return {
+    name: 'minTimeBeforeLock',
+    evaluate: (ctx: RiskContext) => {
+      if (!ctx.market) return { action: 'reject', reason: 'market unavailable' };
+
+      const remaining = ctx.market.marketLockTimestamp - Math.floor(ctx.now / 1000);
+      return remaining < seconds
+        ? { action: 'reject', reason: `market locks in ${remaining}s (min ${seconds}s)` }
+        : allow;
+    },
+  };
+}
+
+export function inplayRule(): RiskRule {
+  return {
+    name: 'inplay',
+    evaluate: (ctx: RiskContext) => {
+      // A failed market fetch says nothing about whether the market is in-play.
+      if (!ctx.market) {
+        logger.warn('Market unavailable, in-play check skipped', { market: ctx.trade.marketAddress.toBase58() });
+        return allow;
+      }
+
+      return ctx.market.inplayEnabled
+        ? { action: 'reject', reason: 'in-play markets are not allowed' }
+        : allow;
+    },
+  };
+}
+
+export function maxPriceRule(maxPrice: number): RiskRule {
+  return {
+    name: 'maxPrice',
+    evaluate: (ctx: RiskContext) => {
+      const price = ctx.limitPrice;
+
+      return price > maxPrice
+        ? { action: 'reject', reason: `price ${price} above max ${maxPrice}` }
+        : allow;
+    },
+  };
+}
+
+export function minLiquidityRule(minLiquidity: number): RiskRule {
+  return {
+    name: 'minLiquidity',
+    evaluate: (ctx: RiskContext) => {
+      if (!ctx.outcomePrices) return { action: 'reject', reason: 'no ladder data' };
+
+      const liquidity = ctx.trade.orderType === 'back'
+        ? ctx.outcomePrices.backLiquidity
+        : ctx.outcomePrices.layLiquidity;
+
+      return liquidity < minLiquidity
+        ? { action: 'reject', reason: `ladder liquidity ${liquidity} below ${minLiquidity}` }
+        : allow;
+    },
+  };
+}
+
+export function leaderCooldownRule(cooldownMs: number): RiskRule {
+  return {
+    name: 'leaderCooldown',
+    evaluate: (ctx: RiskContext) => {
+      if (ctx.lastCopyAt === undefined) return allow;
+
+      const elapsed = ctx.now - ctx.lastCopyAt;
+      return elapsed < cooldownMs
+        ? { action: 'reject', reason: `last copy from this leader ${Math.round(elapsed / 1000)}s ago (cooldown ${cooldownMs / 1000}s)` }
+        : allow;
+    },
+  };
+}
+
+export function createRiskRules(limits: RiskLimits): RiskRule[] {
+  const rules: RiskRule[] = [];
+
+  if (!limits.allowInplay) rules.push(inplayRule());
+  if (limits.minSecondsBeforeLock) rules.push(minTimeBeforeLockRule(limits.minSecondsBeforeLock));
+  if (limits.maxPrice) rules.push(maxPriceRule(limits.maxPrice));
+  if (limits.minLiquidity) rules.push(minLiquidityRule(limits.minLiquidity));
+  if (limits.leaderCooldownMs) rules.push(leaderCooldownRule(limits.leaderCooldownMs));
+  if (limits.maxOpenMarkets) rules.push(maxOpenMarketsRule(limits.maxOpenMarkets));
+  if (limits.maxMarketExposure) rules.push(maxMarketExposureRule(limits.maxMarketExposure));
+  if (limits.maxEventExposure) rules.push(maxEventExposureRule(limits.maxEventExposure));
+
+  return rules;
+}
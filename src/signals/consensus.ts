@@ -0,0 +1,128 @@
+import type { ParsedTrade } from '../bot';
+
+export interface ConsensusSettings {
+  enabled: boolean;
+  windowMs: number;
+  threshold: number;
+  maxScale: number;
+}
+
+export interface ConsensusVote {
+  leader: string;
+  weight: number;
+  stake: number;
+  at: number;
+}
+
+export interface ConsensusSignal {
+  key: string;
+  marketAddress: string;
+  outcomeIndex: number;
+  orderType: 'back' | 'lay';
+  votes: ConsensusVote[];
+  copiedScale: number;
+  firstVoteAt: number;
+}
+
+export type ConsensusResult =
+  | { fire: true; key: string; score: number; leaders: string[]; stake: number; scale: number }
+  | { fire: false; score: number; leaders: string[]; reason: string };
+
+function signalKey(marketAddress: string, outcomeIndex: number, orderType: 'back' | 'lay'): string {
+  return `${marketAddress}:${outcomeIndex}:${orderType}`;
+}
+
+function totalWeight(signal?: ConsensusSignal): number {
+  return signal ? signal.votes.reduce((sum, vote) => sum + vote.weight, 0) : 0;
+}
+
+export class ConsensusAggregator {
+  private signals: Map<string, ConsensusSignal> = new Map();
+
+  record(
+    trade: ParsedTrade,
+    leader: string,
+    weight: number,
+    settings: ConsensusSettings,
+    now: number = trade.blockTime ? trade.blockTime * 1000 : Date.now()
+  ): ConsensusResult {
+    this.expire(settings.windowMs, now);
+
+    const marketAddress = trade.marketAddress.toBase58();
+    const key = signalKey(marketAddress, trade.outcomeIndex, trade.orderType);
+    let signal = this.signals.get(key);
+    if (!signal) {
+      signal = {
+        key,
+        marketAddress,
+        outcomeIndex: trade.outcomeIndex,
+        orderType: trade.orderType,
+        votes: [],
+        copiedScale: 0,
+        firstVoteAt: now,
+      };
+      this.signals.set(key, signal);
+    }
+
+    const existing = signal.votes.find(vote => vote.leader === leader);
+    if (existing) {
+      existing.stake += trade.amount;
+      existing.at = now;
+    } else {
+      signal.votes.push({ leader, weight, stake: trade.amount, at: now });
+    }
+
+    // Leaders taking the other side of the same outcome inside the window count against the signal.
+    const opposing = this.signals.get(signalKey(marketAddress, trade.outcomeIndex, trade.orderType === 'back' ? 'lay' : 'back'));
+    const score = totalWeight(signal) - totalWeight(opposing);
+    const leaders = signal.votes.map(vote => vote.leader);
+
+    if (existing) {
+      return { fire: false, score, leaders, reason: 'leader already counted toward consensus' };
+    }
+
+    if (score < settings.threshold) {
+      return {
+        fire: false,
+        score,
+        leaders,
+        reason: `awaiting consensus (score ${score.toFixed(2)}/${settings.threshold}, ${leaders.length} leaders)`,
+      };
+    }
+
+    // Each agreeing leader tops the copy up, so the total stake tracks how strong the agreement is.
+    const targetScale = Math.min(score / settings.threshold, settings.maxScale);
+    const scale = targetScale - signal.copiedScale;
+    if (scale <= 0) {
+      return { fire: false, score, leaders, reason: `consensus stake cap of ${settings.maxScale}x reached` };
+    }
+
+    signal.copiedScale = targetScale;
+    const weighted = totalWeight(signal);
+    const stake = weighted > 0
+      ? signal.votes.reduce((sum, vote) => sum + vote.stake * vote.weight, 0) / weighted
+      : trade.amount;
+
+    return { fire: true, key, score, leaders, stake, scale };
+  }
+
+  release(key: string, scale: number): void {
+    const signal = this.signals.get(key);
+    if (signal) {
+      signal.copiedScale = Math.max(0, signal.copiedScale - scale);
+    }
+  }
+
+  getSignals(): ConsensusSignal[] {
+    return [...this.signals.values()];
+  }
+
+  private expire(windowMs: number, now: number): void {
+    for (const [key, signal] of this.signals) {
+      signal.votes = signal.votes.filter(vote => now - vote.at <= windowMs);
+      if (signal.votes.length === 0) {
+        this.signals.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { BotConfig } from '../config';
+import { LeaderProfile, checkLeaderMarket } from '../leaders/leader-profiles';
+import { computeStake, SizingStrategy } from './position-sizer';
+import { capLiability, computeFadeStake } from './fade-sizing';
+
+export type CopySizingSettings = Pick<
+  BotConfig,
+  'sizingStrategy' | 'copyMultiplier' | 'fixedStake' | 'kellyEdge' | 'kellyFraction' | 'kellyMaxFraction' | 'maxPositionSize' | 'fade'
+>;
+
+export interface CopySizingInput {
+  profile: LeaderProfile;
+  marketAddress: string;
+  eventCategory?: string | null;
+  leaderStake: number;
+  orderType: 'back' | 'lay';
+  price: number;
+  limitPrice?: number | null;
+  leaderBalance?: number | null;
+  followerBalance?: number | null;
+  impliedProbability?: number | null;
+  spentToday: number;
+  stakeScale?: number;
+}
+
+export type CopySizingDecision =
+  | { copy: true; amount: number; strategy: SizingStrategy }
+  | { copy: false; reason: string };
+
+export function resolveSizingStrategy(profile: LeaderProfile, settings: CopySizingSettings): SizingStrategy {
+  return profile.sizingStrategy
+    ?? (profile.fixedStake !== undefined ? 'fixed' : settings.sizingStrategy);
+}
+
+export function sizeCopyTrade(input: CopySizingInput, settings: CopySizingSettings): CopySizingDecision {
+  const { profile } = input;
+
+  if (!profile.enabled) {
+    return { copy: false, reason: 'leader disabled' };
+  }
+
+  const marketRejection = checkLeaderMarket(profile, input.marketAddress, input.eventCategory);
+  if (marketRejection) {
+    return { copy: false, reason: marketRejection };
+  }
+
+  const strategy = resolveSizingStrategy(profile, settings);
+
+  if (profile.fade) {
+    return sizeFadeTrade(input, settings, strategy);
+  }
+
+  const sizing = computeStake({
+    strategy,
+    leaderStake: input.leaderStake,
+    orderType: input.orderType,
+    price: input.price,
+    copyMultiplier: profile.copyMultiplier ?? settings.copyMultiplier,
+    fixedStake: profile.fixedStake ?? settings.fixedStake,
+    leaderBalance: input.leaderBalance,
+    followerBalance: input.followerBalance,
+    impliedProbability: input.impliedProbability,
+    kellyEdge: profile.kellyEdge ?? settings.kellyEdge,
+    kellyFraction: settings.kellyFraction,
+    kellyMaxFraction: settings.kellyMaxFraction,
+  });
+
+  if (sizing.amount <= 0) {
+    return { copy: false, reason: `${strategy} sizing: ${sizing.reason || 'computed stake is zero'}` };
+  }
+
+  return checkStakeLimits(input, settings, sizing.amount * (input.stakeScale ?? 1), strategy);
+}
+
+function sizeFadeTrade(
+  input: CopySizingInput,
+  settings: CopySizingSettings,
+  strategy: SizingStrategy
+): CopySizingDecision {
+  const { profile } = input;
+  const sizing = computeFadeStake({
+    orderType: input.orderType,
+    leaderStake: input.leaderStake,
+    price: input.price,
+    mode: settings.fade.sizing,
+    multiplier: profile.fadeMultiplier ?? settings.fade.multiplier,
+  });
+
+  if (sizing.amount <= 0) {
+    return { copy: false, reason: `fade sizing: ${sizing.reason || 'computed stake is zero'}` };
+  }
+
+  // A lay's liability grows with the price, so cap it at the worst price we may be matched at.
+  const amount = capLiability(
+    sizing.amount * (input.stakeScale ?? 1),
+    input.orderType,
+    input.limitPrice || input.price,
+    profile.maxFadeLiability ?? settings.fade.maxLiability
+  );
+
+  return checkStakeLimits(input, settings, amount, strategy);
+}
+
+function checkStakeLimits(
+  input: CopySizingInput,
+  settings: CopySizingSettings,
+  amount: number,
+  strategy: SizingStrategy
+): CopySizingDecision {
+  const { profile } = input;
+
+  const maxStake = profile.maxStake ?? settings.maxPositionSize;
+  if (amount > maxStake) {
+    return { copy: false, reason: `size ${amount} exceeds max ${maxStake}` };
+  }
+
+  if (profile.dailyBudget !== undefined && input.spentToday + amount > profile.dailyBudget) {
+    return { copy: false, reason: `daily budget ${profile.dailyBudget} exceeded (spent ${input.spentToday})` };
+  }
+
+  return { copy: true, amount, strategy };
+}
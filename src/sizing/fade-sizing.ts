@@ -0,0 +1,51 @@
+import type { ParsedTrade } from '../bot';
+import { orderLiability, SizingResult } from './position-sizer';
+
+export type FadeSizingMode = 'stake' | 'liability';
+
+export const FADE_SIZING_MODES: FadeSizingMode[] = ['stake', 'liability'];
+
+export interface FadeSettings {
+  sizing: FadeSizingMode;
+  multiplier: number;
+  maxLiability: number;
+}
+
+export interface FadeSizingInput {
+  orderType: 'back' | 'lay';
+  leaderStake: number;
+  price?: number;
+  mode: FadeSizingMode;
+  multiplier: number;
+}
+
+export function oppositeSide(orderType: 'back' | 'lay'): 'back' | 'lay' {
+  return orderType === 'back' ? 'lay' : 'back';
+}
+
+export function fadeTrade(trade: ParsedTrade): ParsedTrade {
+  return { ...trade, orderType: oppositeSide(trade.orderType) };
+}
+
+// orderType is our side of the fade, i.e. the opposite of what the leader placed.
+export function computeFadeStake(input: FadeSizingInput): SizingResult {
+  if (!input.price || input.price <= 1) {
+    return { amount: 0, reason: 'no leader price' };
+  }
+
+  if (input.mode === 'stake') {
+    return { amount: input.leaderStake * input.multiplier };
+  }
+
+  // Put the leader's amount at risk on the other side: a leader's back stake becomes our lay
+  // liability, and a leader's lay liability becomes our back stake.
+  const leaderRisk = orderLiability(oppositeSide(input.orderType), input.leaderStake, input.price);
+  const ourRisk = leaderRisk * input.multiplier;
+
+  return { amount: input.orderType === 'back' ? ourRisk : ourRisk / (input.price - 1) };
+}
+
+export function capLiability(stake: number, orderType: 'back' | 'lay', price: number, maxLiability: number): number {
+  const liability = orderLiability(orderType, stake, price);
+  return liability > maxLiability ? stake * (maxLiability / liability) : stake;
+}
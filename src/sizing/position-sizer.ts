@@ -0,0 +1,91 @@
+export type SizingStrategy = 'multiplier' | 'fixed' | 'proportional' | 'kelly';
+
+export const SIZING_STRATEGIES: SizingStrategy[] = ['multiplier', 'fixed', 'proportional', 'kelly'];
+
+export interface SizingInput {
+  strategy: SizingStrategy;
+  leaderStake: number;
+  orderType: 'back' | 'lay';
+  price?: number;
+  copyMultiplier: number;
+  fixedStake: number;
+  leaderBalance?: number | null;
+  followerBalance?: number | null;
+  impliedProbability?: number | null;
+  kellyEdge: number;
+  kellyFraction: number;
+  kellyMaxFraction: number;
+}
+
+export interface SizingResult {
+  amount: number;
+  reason?: string;
+}
+
+export function computeStake(input: SizingInput): SizingResult {
+  switch (input.strategy) {
+    case 'fixed':
+      return { amount: input.fixedStake };
+
+    case 'proportional': {
+      if (!input.leaderBalance || input.leaderBalance <= 0) {
+        return { amount: 0, reason: 'leader balance unavailable' };
+      }
+      if (!input.followerBalance || input.followerBalance <= 0) {
+        return { amount: 0, reason: 'follower balance unavailable' };
+      }
+
+      const fraction = input.leaderStake / input.leaderBalance;
+      return { amount: fraction * input.followerBalance * input.copyMultiplier };
+    }
+
+    case 'kelly': {
+      if (!input.price || input.price <= 1) {
+        return { amount: 0, reason: 'no price for Kelly sizing' };
+      }
+      if (input.kellyEdge <= 0) {
+        return { amount: 0, reason: 'no leader edge configured for Kelly sizing' };
+      }
+      if (!input.followerBalance || input.followerBalance <= 0) {
+        return { amount: 0, reason: 'follower balance unavailable' };
+      }
+
+      const marketProbability = input.impliedProbability || 1 / input.price;
+      const probability = leaderProbability(input.orderType, marketProbability, input.kellyEdge);
+      const fraction = kellyFraction(input.orderType, input.price, probability);
+      if (fraction <= 0) {
+        return { amount: 0, reason: 'no edge at this price' };
+      }
+
+      const capped = Math.min(fraction * input.kellyFraction, input.kellyMaxFraction);
+      const riskAmount = capped * input.followerBalance;
+
+      // Kelly sizes the amount at risk; for a lay that is the liability, not the stake.
+      const amount = input.orderType === 'back' ? riskAmount : riskAmount / (input.price - 1);
+      return { amount };
+    }
+
+    case 'multiplier':
+    default:
+      return { amount: input.leaderStake * input.copyMultiplier };
+  }
+}
+
+export function orderLiability(orderType: 'back' | 'lay', stake: number, price: number): number {
+  return orderType === 'back' ? stake : stake * (price - 1);
+}
+
+// The market's probability is what everyone else agrees on, so Kelly against it alone finds no edge.
+// The leader is assumed to beat it by `edge`: backs win that much more often, lays that much less.
+export function leaderProbability(orderType: 'back' | 'lay', marketProbability: number, edge: number): number {
+  const probability = orderType === 'back' ? marketProbability * (1 + edge) : marketProbability * (1 - edge);
+  return Math.min(Math.max(probability, 0), 1);
+}
+
+export function kellyFraction(orderType: 'back' | 'lay', price: number, probability: number): number {
+  if (orderType === 'back') {
+    return (probability * price - 1) / (price - 1);
+  }
+
+  return 1 - probability * price;
+}
@@ -0,0 +1,57 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { getAccount, getAssociatedTokenAddress, getMint, TokenAccountNotFoundError } from '@solana/spl-token';
+import { logger } from '../observability/logger';
+
+export class TokenBalanceService {
+  private connection: Connection;
+  private cache: Map<string, Promise<number | null>> = new Map();
+  private decimals: Map<string, number> = new Map();
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  startCycle(): void {
+    this.cache.clear();
+  }
+
+  async getBalance(owner: PublicKey, mint: PublicKey): Promise<number | null> {
+    const key = `${owner.toBase58()}:${mint.toBase58()}`;
+    let balance = this.cache.get(key);
+
+    if (!balance) {
+      balance = this.fetchBalance(owner, mint);
+      this.cache.set(key, balance);
+    }
+
+    return await balance;
+  }
+
+  private async fetchBalance(owner: PublicKey, mint: PublicKey): Promise<number | null> {
+    try {
+      const decimals = await this.getDecimals(mint);
+      const tokenAccount = await getAssociatedTokenAddress(mint, owner, true);
+      const account = await getAccount(this.connection, tokenAccount);
+
+      return Number(account.amount) / Math.pow(10, decimals);
+    } catch (error) {
+      if (error instanceof TokenAccountNotFoundError) {
+        return 0;
+      }
+
+      logger.error('Error fetching token balance', { mint: mint.toBase58(), owner: owner.toBase58(), error });
+      this.cache.delete(`${owner.toBase58()}:${mint.toBase58()}`);
+      return null;
+    }
+  }
+
+  private async getDecimals(mint: PublicKey): Promise<number> {
+    const key = mint.toBase58();
+    const cached = this.decimals.get(key);
+    if (cached !== undefined) return cached;
+
+    const mintInfo = await getMint(this.connection, mint);
+    this.decimals.set(key, mintInfo.decimals);
+    return mintInfo.decimals;
+  }
+}
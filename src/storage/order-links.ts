@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PlacedOrder } from '../prediction-markets/monaco-protocol';
+
+export type OrderLinkStatus = 'open' | 'cancelled' | 'closed';
+
+export interface OrderLink {
+  leader: string;
+  leaderOrderPk: string;
+  marketPk: string;
+  outcomeIndex: number;
+  orderType: 'back' | 'lay';
+  leaderStake: number;
+  ourOrderPk: string;
+  ourSignature: string;
+  ourStake: number;
+  // Stake matched on earlier copy orders that were cancelled and repriced into ourOrderPk.
+  priorMatchedStake?: number;
+  price?: number;
+  status: OrderLinkStatus;
+  closedFraction: number;
+  createdAt: string;
+}
+
+export class OrderLinkStore {
+  private filePath: string;
+  private links: Map<string, OrderLink> = new Map();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      const links: OrderLink[] = JSON.parse(contents);
+      this.links = new Map(links.map(link => [link.leaderOrderPk, link]));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  async upsert(link: OrderLink): Promise<void> {
+    this.links.set(link.leaderOrderPk, link);
+    await this.save();
+  }
+
+  async replaceOurOrder(previousOrderPk: string, order: PlacedOrder, previousMatchedStake: number = 0): Promise<void> {
+    const link = [...this.links.values()].find(l => l.ourOrderPk === previousOrderPk);
+    if (!link) return;
+
+    await this.upsert({
+      ...link,
+      ourOrderPk: order.orderPk.toBase58(),
+      ourSignature: order.signature,
+      priorMatchedStake: (link.priorMatchedStake || 0) + previousMatchedStake,
+    });
+  }
+
+  getByLeaderOrder(leaderOrderPk: string): OrderLink | undefined {
+    return this.links.get(leaderOrderPk);
+  }
+
+  findOpen(filter: (link: OrderLink) => boolean = () => true): OrderLink[] {
+    return [...this.links.values()].filter(link => link.status === 'open' && filter(link));
+  }
+
+  getAll(): OrderLink[] {
+    return [...this.links.values()];
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify([...this.links.values()], null, 2), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,34 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface PauseState {
+  paused: boolean;
+  pausedLeaders: string[];
+}
+
+// Pauses and the kill switch are kept on disk so a restart does not resume copying on its own.
+export class PauseStateStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<PauseState> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      const state: Partial<PauseState> = JSON.parse(contents);
+      return { paused: state.paused === true, pausedLeaders: state.pausedLeaders || [] };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      return { paused: false, pausedLeaders: [] };
+    }
+  }
+
+  async save(state: PauseState): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(state, null, 2), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,150 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { logger } from '../observability/logger';
+
+export type CopyDecision = 'copied' | 'skipped' | 'failed' | 'ignored';
+
+export type CopyAction = 'entry' | 'cancel' | 'exit';
+
+export interface JournalTrade {
+  marketAddress: string;
+  outcomeIndex: number;
+  outcomeTitle?: string;
+  orderType: 'back' | 'lay';
+  amount: number;
+  price?: number;
+}
+
+export interface JournalEntry {
+  timestamp: string;
+  leader: string;
+  signature: string;
+  slot?: number;
+  blockTime?: number | null;
+  trade?: JournalTrade;
+  decision: CopyDecision;
+  action?: CopyAction;
+  reason?: string;
+  copyAmount?: number;
+  copySignature?: string;
+  fillAmount?: number;
+  fillPrice?: number;
+  confirmationStatus?: 'confirmed' | 'failed';
+  slotLatency?: number;
+  confirmMs?: number;
+  fade?: boolean;
+  paper?: boolean;
+}
+
+export interface SettlementEntry {
+  type: 'settlement';
+  timestamp: string;
+  marketPk: string;
+  pnl: number;
+  paper?: boolean;
+}
+
+const RECENT_ENTRIES = 500;
+
+export class TradeJournal {
+  private filePath: string;
+  private lastSignatures: Map<string, { signature: string; slot: number }> = new Map();
+  private copiedEntries: JournalEntry[] = [];
+  private recentEntries: JournalEntry[] = [];
+  private loaded: boolean = false;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+
+    let contents = '';
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    let lineNumber = 0;
+    for (const line of contents.split('\n')) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      try {
+        const entry = JSON.parse(line);
+        if (entry.type === 'settlement') continue;
+        this.track(entry as JournalEntry);
+      } catch (error) {
+        logger.warn('Skipping malformed journal line', { line: lineNumber, path: this.filePath });
+      }
+    }
+
+    this.loaded = true;
+  }
+
+  async record(entry: JournalEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    this.track(entry);
+  }
+
+  async recordSettlement(entry: SettlementEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+  }
+
+  getLastSignature(leader: string): string | undefined {
+    return this.lastSignatures.get(leader)?.signature;
+  }
+
+  // Stake of copied entries only; mirrored exits and cancels close positions rather than spend budget.
+  getCopiedAmount(leader: string, filter: (entry: JournalEntry) => boolean = () => true): number {
+    return this.copiedEntries
+      .filter(entry => entry.leader === leader && (!entry.action || entry.action === 'entry') && filter(entry))
+      .reduce((sum, entry) => sum + (entry.copyAmount || 0), 0);
+  }
+
+  getLastCopyTime(leader: string): number | undefined {
+    let last: number | undefined;
+
+    for (const entry of this.copiedEntries) {
+      if (entry.leader !== leader || (entry.action && entry.action !== 'entry')) continue;
+
+      const time = Date.parse(entry.timestamp);
+      if (last === undefined || time > last) {
+        last = time;
+      }
+    }
+
+    return last;
+  }
+
+  getRecent(limit: number, leader?: string): JournalEntry[] {
+    return this.recentEntries
+      .filter(entry => !leader || entry.leader === leader)
+      .slice(-limit)
+      .reverse();
+  }
+
+  private track(entry: JournalEntry): void {
+    if (entry.decision !== 'ignored') {
+      this.recentEntries.push(entry);
+      if (this.recentEntries.length > RECENT_ENTRIES) {
+        this.recentEntries.shift();
+      }
+    }
+
+    if (entry.decision === 'copied') {
+      this.copiedEntries.push(entry);
+    }
+
+    const slot = entry.slot ?? 0;
+    const last = this.lastSignatures.get(entry.leader);
+
+    if (!last || slot >= last.slot) {
+      this.lastSignatures.set(entry.leader, { signature: entry.signature, slot });
+    }
+  }
+}
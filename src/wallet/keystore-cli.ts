@@ -0,0 +1,45 @@
+import * as dotenv from 'dotenv';
+import { Keypair } from '@solana/web3.js';
+import { saveKeystore } from './keystore';
+import { loadKeypairFile, parseSecretKey } from './wallet-provider';
+
+dotenv.config();
+
+const USAGE = `Usage: KEYSTORE_PASSPHRASE=... npm run keystore -- --out <file> [--keypair <file>]
+
+Encrypts PRIVATE_KEY (or the --keypair / KEYPAIR_PATH file) into a passphrase-protected
+keystore. Point KEYSTORE_PATH at the output and remove the plaintext key afterwards.`;
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const arg = (name: string) => {
+    const index = argv.indexOf(`--${name}`);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const out = arg('out');
+  const passphrase = process.env.KEYSTORE_PASSPHRASE;
+
+  if (!out || !passphrase || argv.includes('--help')) {
+    console.log(USAGE);
+    process.exit(out && passphrase ? 0 : 1);
+  }
+
+  const keypairPath = arg('keypair') || process.env.KEYPAIR_PATH;
+  let keypair: Keypair;
+
+  if (arg('keypair') || !process.env.PRIVATE_KEY) {
+    if (!keypairPath) throw new Error(`No key to encrypt\n\n${USAGE}`);
+    keypair = await loadKeypairFile(keypairPath);
+  } else {
+    keypair = parseSecretKey(process.env.PRIVATE_KEY);
+  }
+
+  await saveKeystore(out, keypair, passphrase);
+  console.log(`🔐 Keystore for ${keypair.publicKey.toBase58()} written to ${out}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Keystore creation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { Keypair } from '@solana/web3.js';
+
+export interface EncryptedKeystore {
+  version: 1;
+  publicKey: string;
+  kdf: 'scrypt';
+  kdfParams: { N: number; r: number; p: number; salt: string };
+  cipher: 'aes-256-gcm';
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+const SCRYPT_PARAMS = { N: 1 << 15, r: 8, p: 1 };
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Buffer {
+  return scryptSync(passphrase, salt, 32, { ...params, maxmem: 128 * params.N * params.r * 2 });
+}
+
+export function encryptKeystore(keypair: Keypair, passphrase: string): EncryptedKeystore {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = deriveKey(passphrase, salt, SCRYPT_PARAMS);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(keypair.secretKey)), cipher.final()]);
+
+  return {
+    version: 1,
+    publicKey: keypair.publicKey.toBase58(),
+    kdf: 'scrypt',
+    kdfParams: { ...SCRYPT_PARAMS, salt: salt.toString('hex') },
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('hex'),
+    authTag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex'),
+  };
+}
+
+export function decryptKeystore(keystore: EncryptedKeystore, passphrase: string): Keypair {
+  if (keystore.version !== 1 || keystore.kdf !== 'scrypt' || keystore.cipher !== 'aes-256-gcm') {
+    throw new Error('Unsupported keystore format');
+  }
+
+  const { salt, ...params } = keystore.kdfParams;
+  const key = deriveKey(passphrase, Buffer.from(salt, 'hex'), params);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(keystore.authTag, 'hex'));
+
+  let secretKey: Buffer;
+  try {
+    secretKey = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'hex')), decipher.final()]);
+  } catch {
+    throw new Error('Could not unlock keystore: wrong passphrase or corrupted file');
+  }
+
+  const keypair = Keypair.fromSecretKey(secretKey);
+  if (keypair.publicKey.toBase58() !== keystore.publicKey) {
+    throw new Error('Keystore public key does not match the decrypted secret key');
+  }
+
+  return keypair;
+}
+
+export async function loadKeystore(filePath: string, passphrase: string): Promise<Keypair> {
+  const contents = await fs.readFile(filePath, 'utf8');
+  return decryptKeystore(JSON.parse(contents), passphrase);
+}
+
+export async function saveKeystore(filePath: string, keypair: Keypair, passphrase: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(encryptKeystore(keypair, passphrase), null, 2), {
+    encoding: 'utf8',
+    mode: 0o600,
+  });
+}
@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { loadKeystore } from './keystore';
+import { KeypairSigner, RemoteSigner, WalletSigner } from './wallet-signer';
+
+export interface WalletSettings {
+  privateKey?: string;
+  keypairPath?: string;
+  keystorePath?: string;
+  keystorePassphrase?: string;
+  remoteSignerUrl?: string;
+  remoteSignerPublicKey?: string;
+  remoteSignerToken?: string;
+}
+
+export function parseSecretKey(value: string): Keypair {
+  const trimmed = value.trim();
+  const secretKey = trimmed.startsWith('[')
+    ? Uint8Array.from(JSON.parse(trimmed))
+    : bs58.decode(trimmed);
+
+  if (secretKey.length !== 64) {
+    throw new Error(`Secret key must be 64 bytes, got ${secretKey.length}`);
+  }
+
+  return Keypair.fromSecretKey(secretKey);
+}
+
+export async function loadKeypairFile(filePath: string): Promise<Keypair> {
+  const contents = await fs.readFile(filePath, 'utf8');
+  return parseSecretKey(contents);
+}
+
+export async function loadWallet(settings: WalletSettings): Promise<WalletSigner> {
+  if (settings.remoteSignerUrl) {
+    if (!settings.remoteSignerPublicKey) {
+      throw new Error('REMOTE_SIGNER_PUBKEY is required with REMOTE_SIGNER_URL');
+    }
+
+    return new RemoteSigner({
+      url: settings.remoteSignerUrl,
+      publicKey: new PublicKey(settings.remoteSignerPublicKey),
+      authToken: settings.remoteSignerToken,
+    });
+  }
+
+  if (settings.keystorePath) {
+    if (!settings.keystorePassphrase) {
+      throw new Error('KEYSTORE_PASSPHRASE is required to unlock KEYSTORE_PATH');
+    }
+    return new KeypairSigner(await loadKeystore(settings.keystorePath, settings.keystorePassphrase));
+  }
+
+  if (settings.privateKey) {
+    return new KeypairSigner(parseSecretKey(settings.privateKey));
+  }
+
+  if (settings.keypairPath) {
+    return new KeypairSigner(await loadKeypairFile(settings.keypairPath));
+  }
+
+  throw new Error('No wallet configured. Set PRIVATE_KEY, KEYPAIR_PATH, KEYSTORE_PATH or REMOTE_SIGNER_URL in .env');
+}
@@ -0,0 +1,74 @@
+import { Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
+
+export interface WalletSigner {
+  readonly publicKey: PublicKey;
+  readonly kind: string;
+  signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction>;
+}
+
+export class KeypairSigner implements WalletSigner {
+  readonly kind = 'keypair';
+  private keypair: Keypair;
+
+  constructor(keypair: Keypair) {
+    this.keypair = keypair;
+  }
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction> {
+    tx.sign([this.keypair]);
+    return tx;
+  }
+}
+
+export interface RemoteSignerOptions {
+  url: string;
+  publicKey: PublicKey;
+  authToken?: string;
+  timeoutMs?: number;
+}
+
+export class RemoteSigner implements WalletSigner {
+  readonly kind = 'remote';
+  readonly publicKey: PublicKey;
+  private url: string;
+  private authToken?: string;
+  private timeoutMs: number;
+
+  constructor(options: RemoteSignerOptions) {
+    this.url = options.url;
+    this.publicKey = options.publicKey;
+    this.authToken = options.authToken;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  async signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {}),
+      },
+      body: JSON.stringify({
+        publicKey: this.publicKey.toBase58(),
+        message: Buffer.from(tx.message.serialize()).toString('base64'),
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Remote signer returned ${response.status}: ${await response.text()}`);
+    }
+
+    const { signature } = await response.json() as { signature?: string };
+    if (!signature) {
+      throw new Error('Remote signer response did not include a signature');
+    }
+
+    tx.addSignature(this.publicKey, Buffer.from(signature, 'base64'));
+    return tx;
+  }
+}
@@ -0,0 +1,175 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { runBacktest, settleTrade } from '../src/backtest/backtester';
+import { DumpedTransaction, TransactionDump } from '../src/backtest/transaction-dump';
+import { anchorDiscriminator, MONACO_PROGRAM_ID } from '../src/prediction-markets/monaco-instructions';
+import { MonacoTransactionParser } from '../src/prediction-markets/monaco-transaction-parser';
+import type { CopySizingSettings } from '../src/sizing/copy-sizing';
+import type { RiskLimits } from '../src/risk/rules';
+
+const LEADER = new PublicKey(Buffer.alloc(32, 1));
+const WON = new PublicKey(Buffer.alloc(32, 10));
+const LAY_WON = new PublicKey(Buffer.alloc(32, 11));
+const OPEN = new PublicKey(Buffer.alloc(32, 12));
+
+const SETTINGS: CopySizingSettings = {
+  sizingStrategy: 'multiplier',
+  copyMultiplier: 1,
+  fixedStake: 0.1,
+  kellyEdge: 0,
+  kellyFraction: 0.25,
+  kellyMaxFraction: 0.05,
+  maxPositionSize: 100,
+  fade: { sizing: 'liability', multiplier: 1, maxLiability: 100 },
+};
+
+let orderSeed = 100;
+
+function createOrder(
+  market: PublicKey,
+  outcome: number,
+  side: 'back' | 'lay',
+  stake: number,
+  price: number,
+  blockTime: number,
+  order: PublicKey = new PublicKey(Buffer.alloc(32, orderSeed++))
+): DumpedTransaction {
+  // create_order takes an empty distinct seed string (u32 length 0) before the order data.
+  const data = Buffer.alloc(8 + 4 + 19);
+  anchorDiscriminator('create_order').copy(data);
+  data.writeUInt16LE(outcome, 12);
+  data.writeUInt8(side === 'back' ? 1 : 0, 14);
+  data.writeBigUInt64LE(BigInt(Math.round(stake * 1e6)), 15);
+  data.writeDoubleLE(price, 23);
+
+  return leaderTransaction(data, order, market, blockTime);
+}
+
+function cancelOrder(market: PublicKey, order: PublicKey, blockTime: number): DumpedTransaction {
+  return leaderTransaction(anchorDiscriminator('cancel_order'), order, market, blockTime);
+}
+
+function leaderTransaction(data: Buffer, order: PublicKey, market: PublicKey, blockTime: number): DumpedTransaction {
+  const keys = [order, new PublicKey(Buffer.alloc(32, 20)), LEADER, new PublicKey(Buffer.alloc(32, 21)), market]
+    .map((pubkey, i) => ({ pubkey, isSigner: i === 2, isWritable: true }));
+
+  const tx = new Transaction({ feePayer: LEADER, recentBlockhash: new PublicKey(Buffer.alloc(32, 9)).toBase58() });
+  tx.add(new TransactionInstruction({ programId: MONACO_PROGRAM_ID, keys, data }));
+
+  return {
+    signature: `tx-${order.toBase58()}-${blockTime}`,
+    slot: blockTime,
+    blockTime,
+    err: null,
+    message: Buffer.from(tx.compileMessage().serialize()).toString('base64'),
+  };
+}
+
+function dump(transactions: DumpedTransaction[]): TransactionDump {
+  return {
+    target: LEADER.toBase58(),
+    createdAt: new Date(0).toISOString(),
+    since: 0,
+    transactions,
+    markets: {
+      [WON.toBase58()]: { marketPk: WON.toBase58(), marketTitle: 'Won', marketStatus: 'settled', marketWinningOutcomeIndex: 0, marketSettleTimestamp: 10_000, mintDecimals: 6 },
+      [LAY_WON.toBase58()]: { marketPk: LAY_WON.toBase58(), marketTitle: 'Lay won', marketStatus: 'settled', marketWinningOutcomeIndex: 1, marketSettleTimestamp: 10_000, mintDecimals: 6 },
+      [OPEN.toBase58()]: { marketPk: OPEN.toBase58(), marketTitle: 'Open', marketStatus: 'open', marketWinningOutcomeIndex: null, mintDecimals: 6 },
+    },
+  };
+}
+
+function parser(): MonacoTransactionParser {
+  const parser = new MonacoTransactionParser(new Connection('http://127.0.0.1:8899'));
+  for (const market of [WON, LAY_WON, OPEN]) {
+    parser.setMintDecimals(market, 6);
+  }
+  return parser;
+}
+
+function options(riskLimits: RiskLimits = { allowInplay: true }) {
+  return {
+    profile: { address: LEADER.toBase58(), enabled: true },
+    settings: SETTINGS,
+    timeZone: 'UTC',
+    followerBankroll: 100,
+    riskLimits,
+  };
+}
+
+describe('settleTrade', () => {
+  it('settles backs and lays against the winning outcome', () => {
+    const market = dump([]).markets[WON.toBase58()];
+
+    assert.deepEqual(settleTrade({ orderType: 'back', outcomeIndex: 0, stake: 2, price: 3 }, market), { status: 'won', pnl: 4 });
+    assert.deepEqual(settleTrade({ orderType: 'lay', outcomeIndex: 0, stake: 2, price: 3 }, market), { status: 'lost', pnl: -4 });
+    assert.deepEqual(settleTrade({ orderType: 'lay', outcomeIndex: 1, stake: 2, price: 3 }, market), { status: 'won', pnl: 2 });
+    assert.equal(settleTrade({ orderType: 'back', outcomeIndex: 0, stake: 2, price: 3 }).status, 'open');
+  });
+});
+
+describe('runBacktest', () => {
+  it('replays the leader and reports settled results', () => {
+    const report = runBacktest(dump([
+      createOrder(WON, 0, 'back', 2, 3, 1000),
+      createOrder(LAY_WON, 0, 'lay', 1, 2, 2000),
+      createOrder(OPEN, 1, 'back', 1, 4, 3000),
+    ]), parser(), options());
+
+    assert.equal(report.leaderTrades, 3);
+    assert.equal(report.copiedTrades, 3);
+    assert.equal(report.settledTrades, 2);
+    assert.equal(report.openTrades, 1);
+    assert.equal(report.wins, 2);
+    assert.equal(report.pnl, 5);
+    assert.equal(report.totalRisked, 3);
+  });
+
+  it('applies the max price and market exposure rules', () => {
+    const report = runBacktest(dump([
+      createOrder(WON, 0, 'back', 2, 3, 1000),
+      createOrder(WON, 0, 'back', 2, 3, 2000),
+      createOrder(OPEN, 1, 'back', 1, 12, 3000),
+    ]), parser(), options({ allowInplay: true, maxPrice: 10, maxMarketExposure: 3 }));
+
+    assert.equal(report.copiedTrades, 2);
+    assert.deepEqual(report.trades.map(trade => trade.stake), [2, 1]);
+    assert.deepEqual(Object.keys(report.skipped), ['maxPrice: price 12 above max 10']);
+  });
+
+  it('applies the open markets limit and the leader cooldown', () => {
+    const transactions = [
+      createOrder(WON, 0, 'back', 1, 2, 1000),
+      createOrder(LAY_WON, 1, 'back', 1, 2, 1010),
+      createOrder(OPEN, 1, 'back', 1, 2, 2000),
+    ];
+
+    const openMarkets = runBacktest(dump(transactions), parser(), options({ allowInplay: true, maxOpenMarkets: 2 }));
+    assert.deepEqual(openMarkets.trades.map(trade => trade.marketPk), [WON.toBase58(), LAY_WON.toBase58()]);
+
+    const cooldown = runBacktest(dump(transactions), parser(), options({ allowInplay: true, leaderCooldownMs: 60_000 }));
+    assert.deepEqual(cooldown.trades.map(trade => trade.marketPk), [WON.toBase58(), OPEN.toBase58()]);
+  });
+
+  it('settles the matched stake of a copy the leader cancels', () => {
+    const order = new PublicKey(Buffer.alloc(32, 99));
+    const report = runBacktest(dump([
+      createOrder(WON, 0, 'back', 2, 3, 1000, order),
+      cancelOrder(WON, order, 1100),
+    ]), parser(), options());
+
+    assert.equal(report.cancelledTrades, 1);
+    assert.equal(report.trades[0].status, 'won');
+    assert.equal(report.pnl, 4);
+    assert.ok(report.assumptions.some(assumption => assumption.includes('cancel')));
+  });
+
+  it('skips orders whose mint decimals are unknown', () => {
+    const unknown = new MonacoTransactionParser(new Connection('http://127.0.0.1:8899'));
+    const report = runBacktest(dump([createOrder(WON, 0, 'back', 2, 3, 1000)]), unknown, options());
+
+    assert.equal(report.copiedTrades, 0);
+    assert.deepEqual(report.skipped, { 'unknown mint decimals': 1 });
+  });
+});
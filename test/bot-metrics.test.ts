@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { botMetrics, instrumentedFetch } from '../src/observability/bot-metrics';
+
+function respondWith(status: number, body: unknown): typeof fetch {
+  return async () => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function request(method: string): RequestInit {
+  return { method: 'POST', body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [] }) };
+}
+
+describe('instrumentedFetch', () => {
+  it('counts JSON-RPC errors returned with HTTP 200 and leaves the body readable', async () => {
+    const fetchImpl = instrumentedFetch(respondWith(200, { jsonrpc: '2.0', id: 1, error: { code: -32005, message: 'Node is behind' } }));
+
+    const response = await fetchImpl('http://rpc.test', request('getSlot'));
+
+    assert.equal(botMetrics.rpcErrors.get({ method: 'getSlot', kind: 'rpc_-32005' }), 1);
+    assert.equal((await response.json()).error.code, -32005);
+  });
+
+  it('counts HTTP failures by status and ignores successful results', async () => {
+    await instrumentedFetch(respondWith(429, { error: 'slow down' }))('http://rpc.test', request('getBalance'));
+    await instrumentedFetch(respondWith(200, { jsonrpc: '2.0', id: 1, result: 5 }))('http://rpc.test', request('getBalance'));
+
+    assert.equal(botMetrics.rpcErrors.get({ method: 'getBalance', kind: '429' }), 1);
+    assert.equal(botMetrics.rpcErrors.get({ method: 'getBalance', kind: 'rpc_unknown' }), 0);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { Config } from '../src/config';
+import { ConfigValidationError } from '../src/config-schema';
+import { watchedConfigPaths } from '../src/config-watcher';
+
+async function loadProblems(files: { leaders: string; config: string }): Promise<string[]> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'config-'));
+  const saved = { ...process.env };
+
+  try {
+    process.env.LEADER_PROFILES_PATH = path.join(dir, 'leaders.json');
+    process.env.CONFIG_PATH = path.join(dir, 'config.json');
+    await writeFile(process.env.LEADER_PROFILES_PATH, files.leaders, 'utf8');
+    await writeFile(process.env.CONFIG_PATH, files.config, 'utf8');
+
+    try {
+      Config.load();
+    } catch (error) {
+      assert.ok(error instanceof ConfigValidationError);
+      return error.problems;
+    }
+    return [];
+  } finally {
+    process.env = saved;
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe('Config.load', () => {
+  it('rejects an unknown slippage mode from the config file', async () => {
+    const problems = await loadProblems({ leaders: '[]', config: JSON.stringify({ slippage: { mode: 'pips' } }) });
+
+    assert.ok(problems.includes('slippage mode must be one of ticks, percent (got "pips")'));
+  });
+
+  it('reports every bad leader profile alongside the other problems', async () => {
+    const problems = await loadProblems({
+      leaders: JSON.stringify({ leaders: [{ label: 'no address' }, { address: '' }] }),
+      config: JSON.stringify({ slippage: { mode: 'pips' } }),
+    });
+
+    assert.equal(problems.filter(problem => problem.includes('is missing an address')).length, 2);
+    assert.ok(problems.some(problem => problem.startsWith('slippage mode')));
+  });
+
+  it('reports a leader profiles file that is not JSON', async () => {
+    const problems = await loadProblems({ leaders: '{ leaders: [', config: '{}' });
+
+    assert.ok(problems.some(problem => /Leader profiles file .* could not be parsed/.test(problem)));
+  });
+});
+
+describe('watchedConfigPaths', () => {
+  it('watches the leader profiles file without a config file', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'config-'));
+    const leaderProfilesPath = path.join(dir, 'leaders.json');
+    const configPath = path.join(dir, 'config.json');
+
+    try {
+      assert.deepEqual(watchedConfigPaths({ leaderProfilesPath }), []);
+
+      await writeFile(leaderProfilesPath, '[]', 'utf8');
+      assert.deepEqual(watchedConfigPaths({ leaderProfilesPath }), [leaderProfilesPath]);
+      assert.deepEqual(watchedConfigPaths({ configPath, leaderProfilesPath }), [configPath, leaderProfilesPath]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PublicKey } from '@solana/web3.js';
+import { ConsensusAggregator, ConsensusSettings } from '../src/signals/consensus';
+import type { ParsedTrade } from '../src/bot';
+
+const MARKET = new PublicKey(Buffer.alloc(32, 3));
+const SETTINGS: ConsensusSettings = { enabled: true, windowMs: 300_000, threshold: 2, maxScale: 2 };
+
+function trade(blockTime: number, amount: number = 2): ParsedTrade {
+  return { marketAddress: MARKET, outcomeIndex: 0, orderType: 'back', amount, price: 2, blockTime };
+}
+
+describe('ConsensusAggregator', () => {
+  it('measures the window on block times rather than processing time', () => {
+    const aggregator = new ConsensusAggregator();
+
+    // Both processed back to back, but placed ten minutes apart on chain.
+    assert.equal(aggregator.record(trade(1_000), 'a', 1, SETTINGS).fire, false);
+    assert.equal(aggregator.record(trade(1_600), 'b', 1, SETTINGS).fire, false);
+
+    const fired = aggregator.record(trade(1_700, 4), 'c', 1, SETTINGS);
+    assert.equal(fired.fire, true);
+    assert.deepEqual(fired.leaders, ['b', 'c']);
+    assert.equal(fired.fire && fired.stake, 3);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PublicKey } from '@solana/web3.js';
+import { ControlApi, InProcessControlClient } from '../src/api/control-api';
+import type { CopyTradingBot } from '../src/bot';
+
+const TOKEN = 'test-token';
+const LEADER = new PublicKey(Buffer.alloc(32, 1)).toBase58();
+
+// Just enough of the bot for the routes under test.
+class FakeBot {
+  paused = false;
+  pausedLeaders = new Set<string>();
+  targets: string[] = [];
+  openOrders = ['order-1', 'order-2'];
+
+  getStatus() {
+    return {
+      running: true,
+      mode: 'paper',
+      paused: this.paused,
+      pausedLeaders: [...this.pausedLeaders],
+      targets: [...this.targets],
+    };
+  }
+
+  getOpenOrders() {
+    return this.openOrders.map(orderPk => ({ orderPk }));
+  }
+
+  getRecentDecisions(limit: number, leader?: string) {
+    return [{ limit, leader }];
+  }
+
+  pause(leader?: string) {
+    if (leader) this.pausedLeaders.add(leader);
+    else this.paused = true;
+  }
+
+  resume(leader?: string) {
+    if (leader) this.pausedLeaders.delete(leader);
+    else this.paused = false;
+  }
+
+  addTarget(address: string) {
+    if (this.targets.includes(address)) return false;
+    this.targets.push(address);
+    return true;
+  }
+
+  async removeTarget(address: string) {
+    if (!this.targets.includes(address)) return false;
+    this.targets = this.targets.filter(target => target !== address);
+    return true;
+  }
+
+  async killSwitch() {
+    this.paused = true;
+    const cancelled = this.openOrders;
+    this.openOrders = [];
+    return { cancelled, failed: [] };
+  }
+}
+
+function setup() {
+  const bot = new FakeBot();
+  const api = new ControlApi(bot as unknown as CopyTradingBot, TOKEN);
+  return { bot, api, client: new InProcessControlClient(api, TOKEN) };
+}
+
+describe('ControlApi', () => {
+  it('rejects requests without the bearer token', async () => {
+    const { api } = setup();
+
+    const missing = await api.handle({ method: 'GET', path: '/status', headers: {} });
+    const wrong = await api.handle({ method: 'GET', path: '/status', headers: { authorization: 'Bearer nope' } });
+    const wrongLength = await api.handle({ method: 'GET', path: '/status', headers: { authorization: `Bearer ${TOKEN}x` } });
+
+    assert.equal(missing.status, 401);
+    assert.equal(wrong.status, 401);
+    assert.equal(wrongLength.status, 401);
+  });
+
+  it('routes by path and method', async () => {
+    const { client } = setup();
+
+    assert.equal((await client.get('/status')).status, 200);
+    assert.equal((await client.get('/nope')).status, 404);
+    assert.equal((await client.delete('/status')).status, 405);
+
+    const decisions = await client.get(`/decisions?limit=9999&leader=${LEADER}`);
+    assert.deepEqual(decisions.body, [{ limit: 500, leader: LEADER }]);
+  });
+
+  it('pauses and resumes all leaders or a single one', async () => {
+    const { bot, client } = setup();
+
+    assert.equal((await client.post('/pause')).body.paused, true);
+    assert.equal((await client.post('/resume')).body.paused, false);
+
+    const paused = await client.post('/pause', { leader: LEADER });
+    assert.deepEqual(paused.body.pausedLeaders, [LEADER]);
+    assert.equal((await client.post('/pause', { leader: 'not-a-key' })).status, 400);
+
+    await client.post('/resume', { leader: LEADER });
+    assert.equal(bot.pausedLeaders.size, 0);
+  });
+
+  it('adds and removes targets', async () => {
+    const { client } = setup();
+
+    assert.equal((await client.post('/targets', { address: LEADER })).status, 201);
+    assert.equal((await client.post('/targets', { address: LEADER })).status, 200);
+    assert.equal((await client.post('/targets', { address: 'not-a-key' })).status, 400);
+
+    assert.equal((await client.delete('/targets/not-a-key')).status, 400);
+    const removed = await client.delete(`/targets/${LEADER}`);
+    assert.equal(removed.status, 200);
+    assert.deepEqual(removed.body.targets, []);
+    assert.equal((await client.delete(`/targets/${LEADER}`)).status, 404);
+  });
+
+  it('kill switch pauses copying and cancels open orders', async () => {
+    const { bot, client } = setup();
+
+    const response = await client.post('/kill-switch');
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, { cancelled: ['order-1', 'order-2'], failed: [] });
+    assert.equal(bot.paused, true);
+    assert.deepEqual((await client.get('/orders')).body, []);
+  });
+
+  it('turns handler errors into a 500', async () => {
+    const { bot, client } = setup();
+    bot.killSwitch = async () => {
+      throw new Error('rpc down');
+    };
+
+    const response = await client.post('/kill-switch');
+
+    assert.equal(response.status, 500);
+    assert.deepEqual(response.body, { error: 'rpc down' });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CopySizingSettings, sizeCopyTrade } from '../src/sizing/copy-sizing';
+import { computeStake, leaderProbability } from '../src/sizing/position-sizer';
+
+const SETTINGS: CopySizingSettings = {
+  sizingStrategy: 'kelly',
+  copyMultiplier: 1,
+  fixedStake: 0.1,
+  kellyEdge: 0.1,
+  kellyFraction: 0.5,
+  kellyMaxFraction: 0.2,
+  maxPositionSize: 100,
+  fade: { sizing: 'liability', multiplier: 1, maxLiability: 10 },
+};
+
+const KELLY = {
+  strategy: 'kelly' as const,
+  leaderStake: 5,
+  copyMultiplier: 1,
+  fixedStake: 0.1,
+  followerBalance: 100,
+  kellyFraction: 0.5,
+  kellyMaxFraction: 0.2,
+};
+
+describe('Kelly sizing', () => {
+  it('sizes from the configured leader edge over the market probability', () => {
+    // Back at 3.0 with a 10% edge: p = 0.3667, full Kelly 0.05, half Kelly 2.5% of 100.
+    const back = computeStake({ ...KELLY, orderType: 'back', price: 3, impliedProbability: 1 / 3, kellyEdge: 0.1 });
+    assert.ok(Math.abs(back.amount - 2.5) < 1e-9);
+
+    // Lay at 3.0: liability fraction 0.1, half Kelly 5 of liability, so a stake of 2.5.
+    const lay = computeStake({ ...KELLY, orderType: 'lay', price: 3, impliedProbability: null, kellyEdge: 0.1 });
+    assert.ok(Math.abs(lay.amount - 2.5) < 1e-9);
+  });
+
+  it('finds no edge at the market probability alone', () => {
+    assert.deepEqual(
+      computeStake({ ...KELLY, orderType: 'back', price: 3, impliedProbability: 1 / 3, kellyEdge: 0 }),
+      { amount: 0, reason: 'no leader edge configured for Kelly sizing' }
+    );
+    assert.equal(leaderProbability('back', 0.9, 0.5), 1);
+  });
+
+  it('lets a profile override the edge', () => {
+    const input = {
+      marketAddress: 'market',
+      leaderStake: 5,
+      orderType: 'back' as const,
+      price: 3,
+      followerBalance: 100,
+      impliedProbability: 1 / 3,
+      spentToday: 0,
+    };
+
+    const sized = sizeCopyTrade({ ...input, profile: { address: 'leader', enabled: true, kellyEdge: 0.2 } }, SETTINGS);
+    assert.ok(sized.copy && Math.abs(sized.amount - 5) < 1e-9);
+  });
+});
+
+describe('fade sizing', () => {
+  it('caps the lay liability at the limit price', () => {
+    const sized = sizeCopyTrade({
+      profile: { address: 'leader', enabled: true, fade: true },
+      marketAddress: 'market',
+      leaderStake: 20,
+      orderType: 'lay',
+      price: 2,
+      limitPrice: 3,
+      spentToday: 0,
+    }, SETTINGS);
+
+    // 20 of leader stake at 2.0 becomes a lay of 20, capped to a liability of 10 at 3.0.
+    assert.deepEqual(sized, { copy: true, amount: 5, strategy: 'kelly' });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { computeExposure } from '../src/risk/exposure';
+import { SettlementTracker } from '../src/accounting/settlement-tracker';
+import type { TradeExecutor } from '../src/execution/trade-executor';
+
+const OWNER = new PublicKey(Buffer.alloc(32, 2));
+const EVENT = new PublicKey(Buffer.alloc(32, 3));
+const OPEN = new PublicKey(Buffer.alloc(32, 10));
+const LOCKED = new PublicKey(Buffer.alloc(32, 11));
+const SETTLED = new PublicKey(Buffer.alloc(32, 12));
+
+function fakeExecutor(statuses: Record<string, string>) {
+  return {
+    getAllPositions: async () => [OPEN, LOCKED, SETTLED].map(market => ({
+      marketId: market.toBase58(),
+      outcomes: [],
+      worstCaseLoss: 2,
+      matchedWorstCaseLoss: 2,
+      pendingLiability: 0,
+      unrealizedPnl: 0,
+    })),
+    getMonacoClient: () => ({
+      getMarket: async (marketPk: PublicKey) => ({
+        marketPk,
+        marketTitle: '',
+        marketStatus: statuses[marketPk.toBase58()],
+        marketLockTimestamp: 1,
+        marketWinningOutcomeIndex: 0,
+        eventAccount: EVENT,
+      }),
+    }),
+  } as unknown as TradeExecutor;
+}
+
+describe('computeExposure', () => {
+  it('counts only markets that are still open', async () => {
+    const executor = fakeExecutor({
+      [OPEN.toBase58()]: 'open',
+      [LOCKED.toBase58()]: 'locked',
+      [SETTLED.toBase58()]: 'settled',
+    });
+    const exposure = await computeExposure(executor, OWNER);
+
+    assert.deepEqual([...exposure.byMarket.keys()], [OPEN.toBase58()]);
+    assert.equal(exposure.byEvent.get(EVENT.toBase58()), 2);
+  });
+
+  it('leaves out markets the settlement tracker has resolved', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'exposure-'));
+    const statePath = path.join(dir, 'settlements.json');
+    const executor = fakeExecutor({
+      [OPEN.toBase58()]: 'open',
+      [LOCKED.toBase58()]: 'open',
+      [SETTLED.toBase58()]: 'open',
+    });
+
+    try {
+      await writeFile(statePath, JSON.stringify({
+        settlements: [{ marketPk: SETTLED.toBase58(), status: 'settled' }],
+        claimedMarkets: [LOCKED.toBase58()],
+      }));
+      const tracker = new SettlementTracker(executor, OWNER, statePath, {
+        intervalMs: 0, stuckAfterHours: 48, claimWinnings: false, maxClaimAttempts: 3,
+      });
+      await tracker.load();
+
+      const exposure = await computeExposure(executor, OWNER, tracker);
+      assert.deepEqual([...exposure.byMarket.keys()], [OPEN.toBase58()]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import { loadSnapshot } from '../src/discovery/activity-snapshot';
+import { scoreLeaders } from '../src/discovery/leader-scoring';
+
+const FIXTURE = fileURLToPath(new URL('./fixtures/activity-snapshot.json', import.meta.url));
+const SINCE = 1_700_000_000;
+
+const A = '2RJD1KnDRGEkvuFfAGrJ7PD28LRE9LRDjZznDywagzmr';
+const B = '2VDW9dFE1ZXz4zWAbaBDQFynNVdRpQ73HyfSHMzBSL6Z';
+const C = '2Z8oHviEbrqDD5kg2sW8h8kYceqdVTnrrPL6Lk2nBfRG';
+const D = '2d46SEBFCA8SMB1BUAq3z1XJrp3qAXUgQnzkQ85Nvzjy';
+
+describe('scoreLeaders', () => {
+  it('ranks leaders by the weighted blend of their metrics', async () => {
+    const scores = scoreLeaders(await loadSnapshot(FIXTURE), { since: SINCE, minSettledMarkets: 2, minVolume: 0 });
+
+    assert.deepEqual(scores.map(score => [score.rank, score.address]), [[1, A], [2, D], [3, B]]);
+    assert.ok(Math.abs(scores[0].score - 0.8375) < 1e-9);
+    assert.ok(Math.abs(scores[1].score - 0.475) < 1e-9);
+    assert.ok(Math.abs(scores[2].score - 0.1875) < 1e-9);
+
+    const [a, , b] = scores;
+    assert.equal(a.roi, 0.4);
+    assert.equal(a.averageOdds, 2.5);
+    assert.equal(a.winRate, 1);
+    // Unmatched stake does not count as volume.
+    assert.equal(b.volume, 20);
+    assert.equal(b.roi, -0.3);
+  });
+
+  it('ignores markets settled and orders placed before the window', async () => {
+    const snapshot = await loadSnapshot(FIXTURE);
+
+    const inWindow = scoreLeaders(snapshot, { since: SINCE, minSettledMarkets: 2, minVolume: 0 }).find(s => s.address === D);
+    assert.equal(inWindow?.settledMarkets, 2);
+    assert.equal(inWindow?.realizedPnl, 2);
+    assert.equal(inWindow?.volume, 5);
+    assert.equal(inWindow?.orders, 1);
+
+    const wider = scoreLeaders(snapshot, { since: SINCE - 1_000, minSettledMarkets: 2, minVolume: 0 }).find(s => s.address === D);
+    assert.equal(wider?.settledMarkets, 3);
+    assert.equal(wider?.realizedPnl, 12);
+    assert.equal(wider?.orders, 3);
+  });
+
+  it('drops leaders below the settled market and volume minimums', async () => {
+    const snapshot = await loadSnapshot(FIXTURE);
+
+    const all = scoreLeaders(snapshot, { since: SINCE, minSettledMarkets: 1, minVolume: 0 });
+    assert.ok(all.some(score => score.address === C));
+
+    const settled = scoreLeaders(snapshot, { since: SINCE, minSettledMarkets: 2, minVolume: 0 });
+    assert.ok(!settled.some(score => score.address === C));
+
+    const volume = scoreLeaders(snapshot, { since: SINCE, minSettledMarkets: 2, minVolume: 10 });
+    assert.deepEqual(volume.map(score => score.address), [A, B]);
+  });
+});
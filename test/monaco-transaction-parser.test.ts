@@ -0,0 +1,197 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+} from '@solana/web3.js';
+import { MINT_SIZE, MintLayout, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  anchorDiscriminator,
+  decodeMonacoInstruction,
+  fromBaseUnits,
+  getInstructionName,
+  readMarketMint,
+} from '../src/prediction-markets/monaco-instructions';
+import { MonacoTransactionParser } from '../src/prediction-markets/monaco-transaction-parser';
+import { DumpedTransaction, restoreTransaction } from '../src/backtest/transaction-dump';
+
+const LEADER = new PublicKey('4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi');
+const OTHER_PURCHASER = new PublicKey('8qbHbw2BbbTHBW1sbeqakYXVKRQM8Ne7pLK7m6CVfeR');
+const MARKET = new PublicKey('CktRuQ2mttgRGkXJtyksdKHjUdc2C4TgDzyB98oEzy8');
+const LEADER_ORDER = new PublicKey('36VASLSKLFD2KokjXG7V28veZvXEsyHRKefLonPaAKzv');
+
+function fixture(name: string): any {
+  const dumped: DumpedTransaction = JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+  return restoreTransaction(dumped);
+}
+
+function offlineParser(decimals: number): MonacoTransactionParser {
+  const parser = new MonacoTransactionParser(new Connection('http://127.0.0.1:8899'));
+  parser.setMintDecimals(MARKET, decimals);
+  return parser;
+}
+
+describe('decodeMonacoInstruction', () => {
+  it('decodes create_order order data after the distinct seed string', () => {
+    const seed = Buffer.from('7f3kQ9zX', 'utf8');
+    const data = Buffer.alloc(8 + 4 + seed.length + 19);
+    anchorDiscriminator('create_order').copy(data);
+    data.writeUInt32LE(seed.length, 8);
+    seed.copy(data, 12);
+    const offset = 12 + seed.length;
+    data.writeUInt16LE(2, offset);
+    data.writeUInt8(1, offset + 2);
+    data.writeBigUInt64LE(1_500_000n, offset + 3);
+    data.writeDoubleLE(1.85, offset + 11);
+
+    const accounts = Array.from({ length: 5 }, (_, i) => new PublicKey(Buffer.alloc(32, i + 1)));
+    const decoded = decodeMonacoInstruction(data, accounts);
+
+    assert.ok(decoded && decoded.kind === 'createOrder');
+    assert.equal(decoded.name, 'create_order');
+    assert.equal(decoded.outcomeIndex, 2);
+    assert.equal(decoded.forOutcome, true);
+    assert.equal(decoded.rawStake, 1_500_000n);
+    assert.equal(decoded.price, 1.85);
+    assert.ok(decoded.orderPk?.equals(accounts[0]));
+    assert.ok(decoded.purchaserPk?.equals(accounts[2]));
+    assert.ok(decoded.marketPk.equals(accounts[4]));
+  });
+
+  it('rejects unknown discriminators and truncated order data', () => {
+    const accounts = Array.from({ length: 5 }, (_, i) => new PublicKey(Buffer.alloc(32, i + 1)));
+
+    assert.equal(decodeMonacoInstruction(Buffer.alloc(27), accounts), null);
+    assert.equal(decodeMonacoInstruction(anchorDiscriminator('create_order_v2'), accounts), null);
+    // A seed length running past the end of the data leaves no room for the order data.
+    const longSeed = Buffer.alloc(8 + 4 + 19);
+    anchorDiscriminator('create_order').copy(longSeed);
+    longSeed.writeUInt32LE(64, 8);
+    assert.equal(decodeMonacoInstruction(longSeed, accounts), null);
+    assert.equal(getInstructionName(anchorDiscriminator('cancel_order')), 'cancel_order');
+  });
+
+  it('reads the mint from a market account', () => {
+    const data = Buffer.alloc(8 + 32 * 3 + 1);
+    const mint = new PublicKey(Buffer.alloc(32, 42));
+    mint.toBuffer().copy(data, 8 + 32 + 32);
+
+    assert.ok(readMarketMint(data)?.equals(mint));
+    assert.equal(readMarketMint(Buffer.alloc(40)), null);
+  });
+
+  it('scales base-unit amounts by the mint decimals', () => {
+    assert.equal(fromBaseUnits(2_500_000n, 6), 2.5);
+    assert.equal(fromBaseUnits('9000000', 6), 9);
+    assert.equal(fromBaseUnits({ toString: () => '1500000000' }, 9), 1.5);
+    assert.equal(fromBaseUnits(undefined, 6), 0);
+  });
+});
+
+describe('MonacoTransactionParser', () => {
+  it('decodes every Monaco instruction in a createOrder transaction', () => {
+    const instructions = offlineParser(6).decodeInstructions(fixture('monaco-create-order.json'));
+
+    assert.deepEqual(instructions.map(ix => ix.name), ['create_order', 'create_order_v2']);
+    assert.ok(instructions.every(ix => ix.marketPk.equals(MARKET)));
+  });
+
+  it('parses only the leader\'s order and scales the stake by the mint decimals', async () => {
+    const parser = offlineParser(6);
+    const trade = await parser.parseTransactionResponse(fixture('monaco-create-order.json'), LEADER);
+
+    assert.ok(trade);
+    assert.ok(trade.purchaserPk?.equals(LEADER));
+    assert.ok(trade.orderPk?.equals(LEADER_ORDER));
+    assert.equal(trade.outcomeIndex, 1);
+    assert.equal(trade.orderType, 'lay');
+    assert.equal(trade.stake, 2.5);
+    assert.equal(trade.expectedPrice, 2.1);
+
+    const other = await parser.parseTransactionResponse(fixture('monaco-create-order.json'), OTHER_PURCHASER.toBase58());
+    assert.equal(other?.orderType, 'back');
+    assert.equal(other?.stake, 9);
+  });
+
+  it('scales every order in a transaction, not just the first', async () => {
+    const parser = offlineParser(6);
+    const orders = parser.decodeInstructions(fixture('monaco-create-order.json'))
+      .filter(ix => ix.kind === 'createOrder');
+    const trades = await Promise.all(orders.map(ix => parser.toTrade(ix)));
+
+    assert.deepEqual(trades.map(trade => [trade?.orderType, trade?.stake]), [['back', 9], ['lay', 2.5]]);
+  });
+
+  it('decodes a cancelOrder transaction', () => {
+    const [cancel] = offlineParser(6).decodeInstructions(fixture('monaco-cancel-order.json'));
+
+    assert.ok(cancel && cancel.kind === 'cancelOrder');
+    assert.ok(cancel.orderPk.equals(LEADER_ORDER));
+    assert.ok(cancel.purchaserPk?.equals(LEADER));
+  });
+
+  it('loads decimals from the market\'s mint account', async () => {
+    const mint = new PublicKey(Buffer.alloc(32, 42));
+    const marketData = Buffer.alloc(8 + 32 * 3 + 1);
+    mint.toBuffer().copy(marketData, 8 + 32 + 32);
+
+    const mintData = Buffer.alloc(MINT_SIZE);
+    MintLayout.encode({
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: 0n,
+      decimals: 9,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    }, mintData);
+
+    const lookups: string[] = [];
+    const connection = {
+      getAccountInfo: async (address: PublicKey) => {
+        lookups.push(address.toBase58());
+        if (address.equals(MARKET)) return { data: marketData, owner: PublicKey.default };
+        if (address.equals(mint)) return { data: mintData, owner: TOKEN_PROGRAM_ID };
+        return null;
+      },
+    } as unknown as Connection;
+
+    const parser = new MonacoTransactionParser(connection);
+    const trade = await parser.parseTransactionResponse(fixture('monaco-create-order.json'), LEADER);
+
+    assert.equal(trade?.stake, 0.0025);
+    assert.equal(await parser.loadMintDecimals(MARKET), 9);
+    assert.deepEqual(lookups, [MARKET.toBase58(), mint.toBase58()]);
+  });
+
+  it('resolves v0 account keys including lookup table addresses', () => {
+    const program = new PublicKey(Buffer.alloc(32, 50));
+    const looked = new PublicKey(Buffer.alloc(32, 51));
+    const table = new AddressLookupTableAccount({
+      key: new PublicKey(Buffer.alloc(32, 52)),
+      state: { deactivationSlot: BigInt('18446744073709551615'), lastExtendedSlot: 0, lastExtendedSlotStartIndex: 0, addresses: [looked] },
+    });
+    const message = new TransactionMessage({
+      payerKey: LEADER,
+      recentBlockhash: new PublicKey(Buffer.alloc(32, 9)).toBase58(),
+      instructions: [new TransactionInstruction({ programId: program, keys: [{ pubkey: looked, isSigner: false, isWritable: false }] })],
+    }).compileToV0Message([table]);
+    const tx = { transaction: { message }, meta: { err: null, loadedAddresses: { writable: [], readonly: [looked] } } };
+
+    const parser = offlineParser(6);
+    assert.deepEqual(parser.getAccountKeys(tx).map(key => key.toBase58()), [LEADER, program, looked].map(key => key.toBase58()));
+    assert.equal(parser.isMonacoTransaction(tx), false);
+    assert.deepEqual(parser.decodeInstructions(tx), []);
+  });
+
+  it('skips orders whose market mint cannot be read', async () => {
+    const connection = { getAccountInfo: async () => null } as unknown as Connection;
+    const parser = new MonacoTransactionParser(connection);
+
+    assert.equal(await parser.parseTransactionResponse(fixture('monaco-create-order.json'), LEADER), null);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { DiscordSink, EmailSink, TelegramSink, WebhookSink } from '../src/notifications/sinks';
+import type { Notification } from '../src/notifications/notifier';
+
+const NOTIFICATION: Notification = {
+  event: 'copied',
+  title: 'Copied order',
+  message: 'Backed Home at 2.1',
+  fields: { stake: 5, market: 'Home v Away', note: undefined },
+  timestamp: new Date(0).toISOString(),
+};
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+async function withHttpServer(status: number, run: (baseUrl: string, received: ReceivedRequest[]) => Promise<void>): Promise<void> {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      received.push({ method: req.method, url: req.url, headers: req.headers, body: JSON.parse(body) });
+      res.writeHead(status, { 'Content-Type': 'text/plain' });
+      res.end(status === 200 ? 'ok' : 'rejected');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    await run(`http://127.0.0.1:${port}`, received);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+// Replies to each SMTP command from `replies`, falling back to 250; collects the commands and the DATA body.
+async function withSmtpServer(
+  replies: Record<string, string>,
+  run: (port: number, commands: string[], data: string[]) => Promise<void>
+): Promise<void> {
+  const commands: string[] = [];
+  const data: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let message: string[] = [];
+
+    socket.setEncoding('utf8');
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split('\r\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            data.push(message.join('\r\n'));
+            message = [];
+            socket.write('250 queued\r\n');
+          } else {
+            message.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0];
+        if (replies[verb]) {
+          socket.write(`${replies[verb]}\r\n`);
+        } else if (verb === 'EHLO') {
+          socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 ok\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await run((server.address() as AddressInfo).port, commands, data);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+describe('HTTP notification sinks', () => {
+  it('posts the notification to a webhook with its headers', async () => {
+    await withHttpServer(200, async (baseUrl, received) => {
+      await new WebhookSink(`${baseUrl}/hook`, { Authorization: 'Bearer secret' }).send(NOTIFICATION);
+
+      assert.equal(received.length, 1);
+      assert.equal(received[0].method, 'POST');
+      assert.equal(received[0].url, '/hook');
+      assert.equal(received[0].headers.authorization, 'Bearer secret');
+      assert.equal(received[0].headers['content-type'], 'application/json');
+      assert.deepEqual(received[0].body, JSON.parse(JSON.stringify(NOTIFICATION)));
+    });
+  });
+
+  it('sends Telegram messages to the bot endpoint as text', async () => {
+    await withHttpServer(200, async (baseUrl, received) => {
+      await new TelegramSink('123:abc', '42', `${baseUrl}/`).send(NOTIFICATION);
+
+      assert.equal(received[0].url, '/bot123:abc/sendMessage');
+      assert.deepEqual(received[0].body, {
+        chat_id: '42',
+        text: 'Copied order\nBacked Home at 2.1\nstake: 5\nmarket: Home v Away',
+        disable_web_page_preview: true,
+      });
+    });
+  });
+
+  it('sends Discord embeds without undefined fields', async () => {
+    await withHttpServer(204, async (baseUrl, received) => {
+      await new DiscordSink(`${baseUrl}/api/webhooks/1/token`).send(NOTIFICATION);
+
+      assert.deepEqual(received[0].body.embeds, [{
+        title: 'Copied order',
+        description: 'Backed Home at 2.1',
+        fields: [
+          { name: 'stake', value: '5', inline: true },
+          { name: 'market', value: 'Home v Away', inline: true },
+        ],
+        timestamp: NOTIFICATION.timestamp,
+      }]);
+    });
+  });
+
+  it('fails with the status and body when the endpoint rejects the post', async () => {
+    await withHttpServer(500, async baseUrl => {
+      await assert.rejects(new WebhookSink(baseUrl).send(NOTIFICATION), /returned 500: rejected/);
+    });
+  });
+});
+
+describe('EmailSink', () => {
+  it('authenticates and delivers the message over SMTP', async () => {
+    await withSmtpServer({}, async (port, commands, data) => {
+      const sink = new EmailSink(
+        { host: '127.0.0.1', port, secure: false, user: 'bot', pass: 'pw', timeoutMs: 5_000 },
+        'Copy Bot <bot@example.com>',
+        ['ops@example.com', 'Alerts <alerts@example.com>']
+      );
+
+      await sink.send({ ...NOTIFICATION, message: '.leading dot' });
+
+      assert.match(commands[0], /^EHLO /);
+      assert.deepEqual(commands.slice(1), [
+        `AUTH PLAIN ${Buffer.from('\0bot\0pw').toString('base64')}`,
+        'MAIL FROM:<bot@example.com>',
+        'RCPT TO:<ops@example.com>',
+        'RCPT TO:<alerts@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+
+      assert.equal(data.length, 1);
+      assert.match(data[0], /^From: Copy Bot <bot@example.com>\r\n/);
+      assert.match(data[0], /\r\nTo: ops@example.com, Alerts <alerts@example.com>\r\n/);
+      assert.match(data[0], /\r\nSubject: \[copy bot\] Copied order\r\n/);
+      assert.match(data[0], /\r\n\r\nCopied order\r\n\.\.leading dot\r\nstake: 5/);
+    });
+  });
+
+  it('fails when the server rejects a recipient', async () => {
+    await withSmtpServer({ RCPT: '550 no such user' }, async (port, commands) => {
+      const sink = new EmailSink({ host: '127.0.0.1', port, secure: false, timeoutMs: 5_000 }, 'bot@example.com', ['nobody@example.com']);
+
+      await assert.rejects(sink.send(NOTIFICATION), /SMTP server replied 550: no such user/);
+      assert.ok(!commands.includes('DATA'));
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { OrderMirror } from '../src/orders/order-mirror';
+import { OrderLink, OrderLinkStore } from '../src/storage/order-links';
+import type { TradeExecutor } from '../src/execution/trade-executor';
+import type { TrackedOrder } from '../src/orders/order-manager';
+import type { MarketExposure } from '../src/prediction-markets/market-exposure';
+
+const LEADER = new PublicKey(Buffer.alloc(32, 1)).toBase58();
+const MARKET = new PublicKey(Buffer.alloc(32, 3));
+const LEADER_ORDER = new PublicKey(Buffer.alloc(32, 4));
+const OUR_ORDER = new PublicKey(Buffer.alloc(32, 5));
+
+function trackedOrder(overrides: Partial<TrackedOrder>): TrackedOrder {
+  return {
+    orderPk: OUR_ORDER.toBase58(),
+    signature: 'copy-signature',
+    marketPk: MARKET.toBase58(),
+    outcomeIndex: 0,
+    orderType: 'back',
+    stake: 5,
+    price: 2,
+    originalPrice: 2,
+    matchedStake: 0,
+    unmatchedStake: 5,
+    cancelledStake: 0,
+    status: 'open',
+    reprices: 0,
+    createdAt: new Date(0).toISOString(),
+    updatedAt: new Date(0).toISOString(),
+    ...overrides,
+  };
+}
+
+class FakeExecutor {
+  orders = new Map<string, TrackedOrder>();
+  cancelled: string[] = [];
+  placed: Array<{ side: 'back' | 'lay'; stake: number; price: number }> = [];
+  position: MarketExposure | null = null;
+
+  getOrder(orderPk: string) {
+    return this.orders.get(orderPk);
+  }
+
+  async cancelOrder(orderPk: PublicKey) {
+    this.cancelled.push(orderPk.toBase58());
+    return 'cancel-signature';
+  }
+
+  async getMarketPosition() {
+    return this.position;
+  }
+
+  async placeBackOrder(_market: PublicKey, _outcome: number, stake: number, price: number) {
+    this.placed.push({ side: 'back', stake, price });
+    return { orderPk: new PublicKey(Buffer.alloc(32, 9)), signature: 'exit-signature' };
+  }
+
+  async placeLayOrder(_market: PublicKey, _outcome: number, stake: number, price: number) {
+    this.placed.push({ side: 'lay', stake, price });
+    return { orderPk: new PublicKey(Buffer.alloc(32, 9)), signature: 'exit-signature' };
+  }
+}
+
+async function setup(order: Partial<TrackedOrder>) {
+  const dir = await mkdtemp(path.join(tmpdir(), 'order-mirror-'));
+  const links = new OrderLinkStore(path.join(dir, 'links.json'));
+  const executor = new FakeExecutor();
+  executor.orders.set(OUR_ORDER.toBase58(), trackedOrder(order));
+
+  const link: OrderLink = {
+    leader: LEADER,
+    leaderOrderPk: LEADER_ORDER.toBase58(),
+    marketPk: MARKET.toBase58(),
+    outcomeIndex: 0,
+    orderType: 'back',
+    leaderStake: 10,
+    ourOrderPk: OUR_ORDER.toBase58(),
+    ourSignature: 'copy-signature',
+    ourStake: 5,
+    price: 2,
+    status: 'open',
+    closedFraction: 0,
+    createdAt: new Date(0).toISOString(),
+  };
+  await links.upsert(link);
+
+  const mirror = new OrderMirror(
+    executor as unknown as TradeExecutor,
+    new PublicKey(Buffer.alloc(32, 2)),
+    links,
+    { mode: 'ticks', value: 0 }
+  );
+
+  return { dir, links, executor, mirror };
+}
+
+describe('OrderMirror', () => {
+  it('keeps a partly matched copy open when the leader cancels', async () => {
+    const { dir, links, executor, mirror } = await setup({ matchedStake: 2, unmatchedStake: 3 });
+
+    try {
+      const result = await mirror.mirrorCancel(LEADER, LEADER_ORDER);
+
+      assert.equal(result.decision, 'copied');
+      assert.equal(result.amount, 3);
+      assert.deepEqual(executor.cancelled, [OUR_ORDER.toBase58()]);
+      assert.equal(links.getByLeaderOrder(LEADER_ORDER.toBase58())?.status, 'open');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('does not cancel a copy the order manager already cancelled', async () => {
+    const { dir, links, executor, mirror } = await setup({ status: 'cancelled', unmatchedStake: 0, cancelledStake: 5 });
+
+    try {
+      const result = await mirror.mirrorCancel(LEADER, LEADER_ORDER);
+
+      assert.equal(result.decision, 'ignored');
+      assert.equal(result.reason, 'copy order already cancelled');
+      assert.deepEqual(executor.cancelled, []);
+      assert.equal(links.getByLeaderOrder(LEADER_ORDER.toBase58())?.status, 'cancelled');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('caps an exit at the linked copy\'s matched stake', async () => {
+    const { dir, links, executor, mirror } = await setup({ matchedStake: 2, unmatchedStake: 3 });
+    // The market position also holds stake that did not come from this leader.
+    executor.position = {
+      marketId: MARKET.toBase58(),
+      outcomes: [{ outcomeIndex: 0, outcomeTitle: 'Home', profitIfWins: 20, profitIfLoses: -10, pendingStake: 0, hedge: null }],
+      worstCaseLoss: 10,
+      matchedWorstCaseLoss: 10,
+      pendingLiability: 0,
+      unrealizedPnl: 0,
+    };
+
+    try {
+      const [link] = links.findOpen();
+      const result = await mirror.mirrorExit(LEADER, {
+        marketAddress: MARKET,
+        outcomeIndex: 0,
+        orderType: 'lay',
+        amount: 10,
+        price: 2,
+      }, [link]);
+
+      assert.equal(result.decision, 'copied');
+      assert.deepEqual(executor.placed, [{ side: 'lay', stake: 2, price: 2 }]);
+      assert.equal(links.getByLeaderOrder(LEADER_ORDER.toBase58())?.status, 'closed');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('skips an exit when the copy never matched', async () => {
+    const { dir, links, executor, mirror } = await setup({});
+    executor.position = {
+      marketId: MARKET.toBase58(),
+      outcomes: [{ outcomeIndex: 0, outcomeTitle: 'Home', profitIfWins: 20, profitIfLoses: -10, pendingStake: 0, hedge: null }],
+      worstCaseLoss: 10,
+      matchedWorstCaseLoss: 10,
+      pendingLiability: 0,
+      unrealizedPnl: 0,
+    };
+
+    try {
+      const result = await mirror.mirrorExit(LEADER, {
+        marketAddress: MARKET,
+        outcomeIndex: 0,
+        orderType: 'lay',
+        amount: 10,
+        price: 2,
+      }, links.findOpen());
+
+      assert.equal(result.decision, 'skipped');
+      assert.deepEqual(executor.placed, []);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { PaperTradingExecutor } from '../src/execution/paper-trading-executor';
+import type { MonacoPositionManager } from '../src/prediction-markets/monaco-position-manager';
+import type { MonacoOutcomeLadder } from '../src/prediction-markets/monaco-protocol';
+
+const MARKET = new PublicKey(Buffer.alloc(32, 3));
+
+function fakeLive(ladder: MonacoOutcomeLadder[]) {
+  return {
+    ladder,
+    getPriceService() {
+      return { getLadder: async () => this.ladder };
+    },
+    getMonacoClient() {
+      return { getMarket: async () => null };
+    },
+    getOutcomeTitle: async (_market: PublicKey, index: number) => `Outcome ${index}`,
+  };
+}
+
+async function setup(ladder: MonacoOutcomeLadder[]) {
+  const dir = await mkdtemp(path.join(tmpdir(), 'paper-'));
+  const live = fakeLive(ladder);
+  const executor = new PaperTradingExecutor(
+    live as unknown as MonacoPositionManager,
+    path.join(dir, 'paper.json'),
+    { timeoutMs: 60_000, cancelBeforeLockSeconds: 0, unmatchedAction: 'cancel', repriceSlippage: { mode: 'ticks', value: 0 }, maxReprices: 0 }
+  );
+  return { dir, live, executor };
+}
+
+describe('PaperTradingExecutor fills', () => {
+  it('does not fill two orders from the same ladder liquidity', async () => {
+    const { dir, executor } = await setup([
+      { outcomeIndex: 0, backs: [{ price: 2.1, liquidity: 5 }, { price: 2, liquidity: 3 }], lays: [] },
+    ]);
+
+    try {
+      const first = await executor.placeBackOrder(MARKET, 0, 4, 2);
+      const second = await executor.placeBackOrder(MARKET, 0, 6, 2);
+
+      assert.equal(first.matchedStake, 4);
+      assert.equal(first.averagePrice, 2.1);
+      // One unit is left at 2.1 and three at 2.0.
+      assert.equal(second.matchedStake, 4);
+      assert.equal(executor.getOrder(second.orderPk.toBase58())?.status, 'open');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps consumed liquidity across cycles until the level is traded away', async () => {
+    const { dir, live, executor } = await setup([
+      { outcomeIndex: 0, backs: [], lays: [{ price: 3, liquidity: 2 }] },
+    ]);
+
+    try {
+      const placed = await executor.placeLayOrder(MARKET, 0, 5, 3);
+      assert.equal(placed.matchedStake, 2);
+
+      // Same book on the next cycle: nothing new to match.
+      await executor.manageOpenOrders();
+      assert.equal(executor.getOrder(placed.orderPk.toBase58())?.matchedStake, 2);
+
+      // New liquidity behind what we already took only fills the new part.
+      live.ladder = [{ outcomeIndex: 0, backs: [], lays: [{ price: 3, liquidity: 3 }] }];
+      await executor.manageOpenOrders();
+      assert.equal(executor.getOrder(placed.orderPk.toBase58())?.matchedStake, 3);
+
+      // Someone else traded the level away, then fresh liquidity arrived.
+      live.ladder = [{ outcomeIndex: 0, backs: [], lays: [] }];
+      await executor.manageOpenOrders();
+      live.ladder = [{ outcomeIndex: 0, backs: [], lays: [{ price: 3, liquidity: 4 }] }];
+      await executor.manageOpenOrders();
+      assert.equal(executor.getOrder(placed.orderPk.toBase58())?.matchedStake, 5);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
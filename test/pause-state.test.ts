@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { PauseStateStore } from '../src/storage/pause-state';
+
+describe('PauseStateStore', () => {
+  it('starts unpaused and restores a saved pause', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'pause-state-'));
+    const filePath = path.join(dir, 'data', 'pause-state.json');
+
+    try {
+      assert.deepEqual(await new PauseStateStore(filePath).load(), { paused: false, pausedLeaders: [] });
+
+      await new PauseStateStore(filePath).save({ paused: true, pausedLeaders: ['leader-1'] });
+      assert.deepEqual(await new PauseStateStore(filePath).load(), { paused: true, pausedLeaders: ['leader-1'] });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { offsetMarketPnl, PnlTracker } from '../src/accounting/pnl-tracker';
+import type { TradeExecutor } from '../src/execution/trade-executor';
+import type { MarketExposure } from '../src/prediction-markets/market-exposure';
+
+const OWNER = new PublicKey(Buffer.alloc(32, 2));
+const MARKET = new PublicKey(Buffer.alloc(32, 3));
+
+function exposure(profits: number[], unrealizedPnl: number): MarketExposure {
+  return {
+    marketId: MARKET.toBase58(),
+    outcomes: profits.map((profitIfWins, outcomeIndex) => ({
+      outcomeIndex,
+      outcomeTitle: `Outcome ${outcomeIndex}`,
+      profitIfWins,
+      profitIfLoses: Math.min(...profits.filter((_, i) => i !== outcomeIndex)),
+      pendingStake: 0,
+      hedge: null,
+    })),
+    worstCaseLoss: Math.max(0, -Math.min(...profits)),
+    matchedWorstCaseLoss: Math.max(0, -Math.min(...profits)),
+    pendingLiability: 0,
+    unrealizedPnl,
+  };
+}
+
+function fakeExecutor() {
+  const executor = {
+    mode: 'paper' as const,
+    marketStatus: 'open',
+    position: exposure([10, -5], -5),
+    getMonacoPositions: async () => [{ marketPk: MARKET }],
+    getMonacoClient: () => ({
+      getMarket: async () => ({ marketPk: MARKET, marketStatus: executor.marketStatus, marketWinningOutcomeIndex: 1 }),
+    }),
+    getMarketPosition: async () => executor.position,
+  };
+  return executor;
+}
+
+describe('offsetMarketPnl', () => {
+  it('returns the locked-in result only when every outcome pays the same', () => {
+    assert.equal(offsetMarketPnl(exposure([2, 2, 2], 2)), 2);
+    assert.equal(offsetMarketPnl(exposure([10, -5], 1)), null);
+    assert.equal(offsetMarketPnl(null), null);
+  });
+});
+
+describe('PnlTracker', () => {
+  it('measures the daily loss from the day-start mark and books offset positions', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'pnl-'));
+    const executor = fakeExecutor();
+    const tracker = new PnlTracker(executor as unknown as TradeExecutor, OWNER, path.join(dir, 'pnl.json'), 'UTC');
+
+    try {
+      await tracker.load();
+
+      // An open position that was already 5 down when the day started is not today's loss.
+      let snapshot = await tracker.refresh();
+      assert.equal(snapshot.unrealizedAtDayStart, -5);
+      assert.equal(tracker.getDailyLoss(), 0);
+
+      executor.position = exposure([10, -8], -8);
+      await tracker.refresh();
+      assert.equal(tracker.getDailyLoss(), 3);
+
+      // Hedged out for a sure -6: booked as realized, nothing left unrealized.
+      executor.position = exposure([-6, -6], -6);
+      snapshot = await tracker.refresh();
+      assert.equal(snapshot.realizedToday, -6);
+      assert.equal(snapshot.unrealized, 0);
+      assert.equal(tracker.getDailyLoss(), 1);
+
+      // Settlement only books what the offset had not.
+      executor.marketStatus = 'settled';
+      snapshot = await tracker.refresh();
+      assert.equal(snapshot.realizedToday, -6);
+      assert.equal(snapshot.totalRealized, -6);
+      assert.equal(tracker.getDailyLoss(), 1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PublicKey } from '@solana/web3.js';
+import {
+  createRiskRules,
+  inplayRule,
+  leaderCooldownRule,
+  maxEventExposureRule,
+  maxMarketExposureRule,
+  maxOpenMarketsRule,
+  maxPriceRule,
+  minLiquidityRule,
+  minTimeBeforeLockRule,
+} from '../src/risk/rules';
+import { RiskContext, RiskEngine } from '../src/risk/risk-engine';
+import type { MonacoMarket } from '../src/prediction-markets/monaco-protocol';
+
+const MARKET = new PublicKey(Buffer.alloc(32, 3));
+const EVENT = new PublicKey(Buffer.alloc(32, 4));
+const NOW = 1_760_000_000_000;
+
+function market(overrides: Partial<MonacoMarket> = {}): MonacoMarket {
+  return {
+    marketPk: MARKET,
+    marketTitle: 'Home v Away',
+    marketLockTimestamp: NOW / 1000 + 3600,
+    marketStatus: 'open',
+    eventAccount: EVENT,
+    mintAccount: new PublicKey(Buffer.alloc(32, 5)),
+    marketOutcomesCount: 3,
+    marketWinningOutcomeIndex: null,
+    inplayEnabled: false,
+    ...overrides,
+  };
+}
+
+function context(overrides: Partial<RiskContext> = {}): RiskContext {
+  return {
+    leader: 'leader',
+    trade: { marketAddress: MARKET, outcomeIndex: 0, orderType: 'back', amount: 2, price: 3 },
+    stake: 2,
+    limitPrice: 3,
+    market: market(),
+    outcomePrices: {
+      outcomeIndex: 0,
+      bestBackPrice: 3,
+      bestLayPrice: 3.1,
+      backLiquidity: 50,
+      layLiquidity: 5,
+      impliedProbability: 0.33,
+      spread: 0.1,
+    },
+    exposure: { byMarket: new Map(), byEvent: new Map(), openMarkets: new Set() },
+    now: NOW,
+    ...overrides,
+  };
+}
+
+describe('risk rules', () => {
+  it('checks the max price against the slipped limit price', () => {
+    const rule = maxPriceRule(3.5);
+
+    assert.equal(rule.evaluate(context({ limitPrice: 3.4 })).action, 'allow');
+    assert.deepEqual(rule.evaluate(context({ limitPrice: 3.6 })), { action: 'reject', reason: 'price 3.6 above max 3.5' });
+  });
+
+  it('sizes lay exposure with the liability at the limit price', () => {
+    const rule = maxMarketExposureRule(10);
+    const lay = { marketAddress: MARKET, outcomeIndex: 0, orderType: 'lay' as const, amount: 4, price: 3 };
+    const exposure = { byMarket: new Map([[MARKET.toBase58(), 4]]), byEvent: new Map(), openMarkets: new Set<string>() };
+
+    // 6 of headroom at a liability of 4 per unit staked at 5.0.
+    const verdict = rule.evaluate(context({ trade: lay, stake: 4, limitPrice: 5, exposure }));
+
+    assert.equal(verdict.action, 'resize');
+    assert.equal(verdict.action === 'resize' && verdict.amount, 1.5);
+    assert.equal(rule.evaluate(context({ trade: lay, stake: 1, limitPrice: 5, exposure })).action, 'allow');
+  });
+
+  it('rejects when event exposure is at its limit or the market is unknown', () => {
+    const rule = maxEventExposureRule(5);
+    const exposure = { byMarket: new Map(), byEvent: new Map([[EVENT.toBase58(), 5]]), openMarkets: new Set<string>() };
+
+    assert.equal(rule.evaluate(context({ exposure })).action, 'reject');
+    assert.equal(rule.evaluate(context({ market: null })).action, 'reject');
+    assert.equal(rule.evaluate(context()).action, 'allow');
+  });
+
+  it('limits the number of open markets but allows adding to one already held', () => {
+    const rule = maxOpenMarketsRule(1);
+    const other = { byMarket: new Map(), byEvent: new Map(), openMarkets: new Set(['other']) };
+    const same = { byMarket: new Map(), byEvent: new Map(), openMarkets: new Set([MARKET.toBase58()]) };
+
+    assert.equal(rule.evaluate(context({ exposure: other })).action, 'reject');
+    assert.equal(rule.evaluate(context({ exposure: same })).action, 'allow');
+  });
+
+  it('rejects markets that lock too soon', () => {
+    const rule = minTimeBeforeLockRule(600);
+
+    assert.equal(rule.evaluate(context()).action, 'allow');
+    assert.equal(rule.evaluate(context({ market: market({ marketLockTimestamp: NOW / 1000 + 60 }) })).action, 'reject');
+  });
+
+  it('rejects in-play markets and lets a failed market fetch through', () => {
+    const rule = inplayRule();
+
+    assert.equal(rule.evaluate(context({ market: market({ inplayEnabled: true }) })).action, 'reject');
+    assert.equal(rule.evaluate(context({ market: null })).action, 'allow');
+  });
+
+  it('checks ladder liquidity on our side of the book', () => {
+    const rule = minLiquidityRule(10);
+    const lay = { marketAddress: MARKET, outcomeIndex: 0, orderType: 'lay' as const, amount: 2, price: 3 };
+
+    assert.equal(rule.evaluate(context()).action, 'allow');
+    assert.equal(rule.evaluate(context({ trade: lay })).action, 'reject');
+    assert.equal(rule.evaluate(context({ outcomePrices: null })).action, 'reject');
+  });
+
+  it('enforces the leader cooldown', () => {
+    const rule = leaderCooldownRule(60_000);
+
+    assert.equal(rule.evaluate(context()).action, 'allow');
+    assert.equal(rule.evaluate(context({ lastCopyAt: NOW - 30_000 })).action, 'reject');
+    assert.equal(rule.evaluate(context({ lastCopyAt: NOW - 90_000 })).action, 'allow');
+  });
+
+  it('only adds the rules that are configured', () => {
+    const names = (rules: ReturnType<typeof createRiskRules>) => rules.map(rule => rule.name);
+
+    assert.deepEqual(names(createRiskRules({ allowInplay: true })), []);
+    assert.deepEqual(names(createRiskRules({ allowInplay: false, maxPrice: 10, maxMarketExposure: 5 })), [
+      'inplay',
+      'maxPrice',
+      'maxMarketExposure',
+    ]);
+  });
+});
+
+describe('RiskEngine', () => {
+  it('applies resizes in order and stops at the first rejection', () => {
+    const exposure = {
+      byMarket: new Map([[MARKET.toBase58(), 9]]),
+      byEvent: new Map([[EVENT.toBase58(), 9]]),
+      openMarkets: new Set<string>(),
+    };
+    const engine = new RiskEngine([maxMarketExposureRule(10), maxEventExposureRule(9.5)]);
+
+    const resized = new RiskEngine([maxMarketExposureRule(10)]).evaluate(context({ exposure }));
+    assert.equal(resized.action, 'resize');
+    assert.equal(resized.amount, 1);
+
+    const rejected = engine.evaluate(context({ exposure: { ...exposure, byEvent: new Map([[EVENT.toBase58(), 10]]) } }));
+    assert.equal(rejected.action, 'reject');
+    assert.equal(rejected.reasons.length, 2);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { SettlementSettings, SettlementTracker } from '../src/accounting/settlement-tracker';
+import type { TradeExecutor } from '../src/execution/trade-executor';
+
+const OWNER = new PublicKey(Buffer.alloc(32, 2));
+const MARKET = new PublicKey(Buffer.alloc(32, 3));
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SETTINGS: SettlementSettings = { intervalMs: 0, stuckAfterHours: 48, claimWinnings: true, maxClaimAttempts: 3 };
+
+function fakeExecutor() {
+  const executor = {
+    claims: 0,
+    // Monaco keeps the position account after the payout is claimed.
+    getMonacoPositions: async () => [{ marketPk: MARKET, marketTitle: 'Home v Away', matchedAmount: 5, pendingAmount: 0 }],
+    getMonacoClient: () => ({
+      getMarket: async () => ({ marketPk: MARKET, marketTitle: 'Home v Away', marketStatus: 'settled', marketLockTimestamp: 1, marketWinningOutcomeIndex: 0 }),
+    }),
+    getMarketPosition: async () => null,
+    claimMarketPosition: async () => {
+      executor.claims++;
+      return 'claim-signature';
+    },
+  };
+  return executor;
+}
+
+describe('SettlementTracker', () => {
+  it('does not track a claimed market again after it is pruned', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'settlements-'));
+    const statePath = path.join(dir, 'settlements.json');
+    const executor = fakeExecutor();
+    const create = () => new SettlementTracker(executor as unknown as TradeExecutor, OWNER, statePath, SETTINGS);
+
+    try {
+      const tracker = create();
+      await tracker.load();
+
+      await tracker.run(0);
+      assert.equal(tracker.getSettlements()[0].status, 'claimed');
+      assert.equal(executor.claims, 1);
+
+      await tracker.run(8 * DAY_MS);
+      assert.deepEqual(tracker.getSettlements(), []);
+
+      await tracker.run(9 * DAY_MS);
+      assert.deepEqual(tracker.getSettlements(), []);
+
+      const restarted = create();
+      await restarted.load();
+      await restarted.run(10 * DAY_MS);
+      assert.deepEqual(restarted.getSettlements(), []);
+      assert.equal(executor.claims, 1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { JournalEntry, TradeJournal } from '../src/storage/trade-journal';
+
+const LEADER = 'leader-1';
+
+function entry(fields: Partial<JournalEntry>): JournalEntry {
+  return {
+    timestamp: new Date(0).toISOString(),
+    leader: LEADER,
+    signature: `sig-${Math.random()}`,
+    decision: 'copied',
+    ...fields,
+  };
+}
+
+describe('TradeJournal', () => {
+  it('counts only copied entries towards the amount spent', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'journal-'));
+    const filePath = path.join(dir, 'journal.jsonl');
+
+    try {
+      const journal = new TradeJournal(filePath);
+      await journal.record(entry({ action: 'entry', copyAmount: 2 }));
+      await journal.record(entry({ copyAmount: 1 }));
+      await journal.record(entry({ action: 'exit', copyAmount: 5 }));
+      await journal.record(entry({ action: 'cancel', copyAmount: 4 }));
+      await journal.record(entry({ decision: 'failed', action: 'entry', copyAmount: 8 }));
+      await journal.record(entry({ leader: 'leader-2', action: 'entry', copyAmount: 16 }));
+
+      assert.equal(journal.getCopiedAmount(LEADER), 3);
+
+      const reloaded = new TradeJournal(filePath);
+      await reloaded.load();
+      assert.equal(reloaded.getCopiedAmount(LEADER), 3);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
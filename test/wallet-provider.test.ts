@@ -0,0 +1,19 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { parseSecretKey } from '../src/wallet/wallet-provider';
+
+describe('parseSecretKey', () => {
+  it('reads base58 and JSON array secret keys', () => {
+    const keypair = Keypair.generate();
+
+    assert.ok(parseSecretKey(` ${bs58.encode(keypair.secretKey)}\n`).publicKey.equals(keypair.publicKey));
+    assert.ok(parseSecretKey(JSON.stringify([...keypair.secretKey])).publicKey.equals(keypair.publicKey));
+  });
+
+  it('rejects keys that are not 64 bytes or not base58', () => {
+    assert.throws(() => parseSecretKey(bs58.encode(Buffer.alloc(32, 1))), /must be 64 bytes, got 32/);
+    assert.throws(() => parseSecretKey('0OIl'), /Non-base58 character/);
+  });
+});